@@ -0,0 +1,278 @@
+// mdclaw agent-runner: file attachments exchanged with the host
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { ipcFileStem } from './ipc-writer.js';
+import type { OutboundQueue } from './outbox.js';
+
+// Only files under these roots may leave the container. /data is the group's
+// persistent workspace; /tmp is where agent-browser writes screenshots.
+const OUTBOUND_ROOTS = ['/data', '/tmp'];
+
+// Inbound attachments may live in the group workspace, the IPC mount (where the
+// host drops files for follow-up messages) or /tmp.
+const INBOUND_ROOTS = ['/data', '/ipc', '/tmp'];
+
+// API limits for inline base64 content: 5 MB per image, 32 MB per PDF.
+// Text documents are inlined as plain text and capped separately.
+const MAX_INBOUND_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_INBOUND_PDF_BYTES = 32 * 1024 * 1024;
+const MAX_INBOUND_TEXT_BYTES = 1024 * 1024;
+
+const INLINE_IMAGE_TYPES = new Set(['image/jpeg', 'image/png', 'image/gif', 'image/webp']);
+
+// Most channels reject uploads well below this (WhatsApp documents: 100 MB,
+// Telegram bots: 50 MB, Discord: 25 MB), so keep under the smallest.
+export const MAX_OUTBOUND_FILE_BYTES = 20 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.zip': 'application/zip',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.mp3': 'audio/mpeg',
+  '.ogg': 'audio/ogg',
+  '.opus': 'audio/opus',
+  '.m4a': 'audio/mp4',
+  '.wav': 'audio/wav',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+};
+
+/**
+ * A file attached to an inbound message, mounted into the container by the host.
+ * Appears in ContainerInput.attachments and in follow-up files in ipc/input/.
+ */
+export interface InboundAttachment {
+  path: string;
+  mime_type?: string;
+  filename?: string;
+  caption?: string;
+  /** Voice notes: transcription produced by the host */
+  transcript?: string;
+}
+
+/**
+ * Keeps the well-formed entries of an attachments array from ContainerInput or an
+ * IPC input file: objects with a string `path`, optional fields only if strings.
+ * Malformed entries are dropped and logged to stderr, so a bad entry from the
+ * host can't crash the run.
+ */
+export function parseInboundAttachments(value: unknown, source: string): InboundAttachment[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    process.stderr.write(`[attachments] Ignoring ${source} attachments: not an array\n`);
+    return [];
+  }
+  const optional = ['mime_type', 'filename', 'caption', 'transcript'] as const;
+  const attachments: InboundAttachment[] = [];
+  value.forEach((entry, i) => {
+    const record = entry as Record<string, unknown> | null;
+    const valid = typeof record === 'object' && record !== null
+      && typeof record.path === 'string' && record.path !== ''
+      && optional.every((key) => record[key] === undefined || typeof record[key] === 'string');
+    if (valid) {
+      attachments.push(record as unknown as InboundAttachment);
+    } else {
+      process.stderr.write(`[attachments] Skipping ${source} attachment ${i}: expected { path: string, ... }\n`);
+    }
+  });
+  return attachments;
+}
+
+/** Content block shapes accepted by the Messages API in a user turn. */
+export type UserContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+  | { type: 'document'; source: { type: 'base64'; media_type: 'application/pdf'; data: string } | { type: 'text'; media_type: 'text/plain'; data: string }; title?: string };
+
+/** User turn content: plain text, or content blocks when attachments are present. */
+export type UserContent = string | UserContentBlock[];
+
+/**
+ * Outbound message file written to ipc/{group}/messages/.
+ * `file` is relative to the messages directory.
+ */
+export interface OutboundAttachmentMessage {
+  type: 'file';
+  chat_jid: string;
+  file: string;
+  filename: string;
+  mime_type: string;
+  size: number;
+  caption?: string;
+  sender?: string;
+  source_group: string;
+  /** Position in the run's outbound stream, shared with send_message (see OutboundQueue) */
+  seq: number;
+  timestamp: string;
+}
+
+/**
+ * Guesses a mime type from the file extension.
+ */
+export function mimeTypeFor(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * Returns true if `filePath` is `root` or lies inside it.
+ */
+function isWithin(root: string, filePath: string): boolean {
+  const rel = path.relative(root, filePath);
+  return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+}
+
+/**
+ * Resolves symlinks and checks the real path stays inside one of `roots`.
+ * Throws with a model-readable message if it does not.
+ */
+export function resolveAllowedFile(filePath: string, roots: string[]): string {
+  if (!path.isAbsolute(filePath)) {
+    throw new Error(`Path must be absolute (got "${filePath}")`);
+  }
+  let realPath: string;
+  try {
+    realPath = fs.realpathSync(filePath);
+  } catch {
+    throw new Error(`File not found: ${filePath}`);
+  }
+  if (!roots.some((root) => isWithin(root, realPath))) {
+    throw new Error(`File must be inside ${roots.join(' or ')} (resolved to ${realPath})`);
+  }
+  if (!fs.statSync(realPath).isFile()) {
+    throw new Error(`Not a regular file: ${filePath}`);
+  }
+  return realPath;
+}
+
+/**
+ * Copies a container file into ipc/{group}/messages/files/ and queues an
+ * outbound message file referencing it, so the host can upload it to the chat.
+ *
+ * Validates the path is inside an allowed root and under the size cap.
+ * The copy (rather than a path into /data) means the host never needs to read
+ * the group's workspace, and later edits by the agent cannot change what is sent.
+ */
+export function stageOutboundFile(
+  outbox: OutboundQueue,
+  filePath: string,
+  meta: { caption?: string; sender?: string } = {},
+): OutboundAttachmentMessage {
+  const realPath = resolveAllowedFile(filePath, OUTBOUND_ROOTS);
+  const size = fs.statSync(realPath).size;
+  if (size > MAX_OUTBOUND_FILE_BYTES) {
+    throw new Error(`File is ${size} bytes; the limit is ${MAX_OUTBOUND_FILE_BYTES} bytes`);
+  }
+
+  const filesDir = path.join(outbox.dir, 'files');
+  fs.mkdirSync(filesDir, { recursive: true });
+
+  const filename = path.basename(realPath);
+  const stagedName = `${ipcFileStem()}-${filename}`;
+  fs.copyFileSync(realPath, path.join(filesDir, stagedName));
+
+  // Queued after the copy completes so the host never sees a dangling reference
+  return outbox.enqueue({
+    type: 'file' as const,
+    chat_jid: outbox.chatJid,
+    file: `files/${stagedName}`,
+    filename,
+    mime_type: mimeTypeFor(realPath),
+    size,
+    ...(meta.caption ? { caption: meta.caption } : {}),
+    ...(meta.sender ? { sender: meta.sender } : {}),
+    source_group: outbox.sourceGroup,
+  });
+}
+
+/**
+ * Converts one inbound attachment into a content block.
+ * Images and PDFs are inlined as base64, text files as text documents, and
+ * voice notes as their transcript. Anything else (or anything that fails
+ * validation) becomes a text note with the path, so the agent can still
+ * inspect the file with its own tools.
+ */
+function attachmentToBlock(attachment: InboundAttachment): UserContentBlock {
+  const filename = attachment.filename ?? path.basename(attachment.path);
+  const mimeType = attachment.mime_type ?? mimeTypeFor(attachment.path);
+  const caption = attachment.caption ? ` — ${attachment.caption}` : '';
+
+  if (attachment.transcript) {
+    return { type: 'text', text: `[Voice note ${filename}${caption}] Transcript: ${attachment.transcript}` };
+  }
+
+  let realPath: string;
+  try {
+    realPath = resolveAllowedFile(attachment.path, INBOUND_ROOTS);
+  } catch (err) {
+    const errMsg = err instanceof Error ? err.message : String(err);
+    return { type: 'text', text: `[Attachment ${filename} could not be loaded: ${errMsg}]` };
+  }
+  const size = fs.statSync(realPath).size;
+
+  if (INLINE_IMAGE_TYPES.has(mimeType) && size <= MAX_INBOUND_IMAGE_BYTES) {
+    return { type: 'image', source: { type: 'base64', media_type: mimeType, data: fs.readFileSync(realPath).toString('base64') } };
+  }
+  if (mimeType === 'application/pdf' && size <= MAX_INBOUND_PDF_BYTES) {
+    return {
+      type: 'document',
+      source: { type: 'base64', media_type: 'application/pdf', data: fs.readFileSync(realPath).toString('base64') },
+      title: filename,
+    };
+  }
+  if (mimeType.startsWith('text/') && size <= MAX_INBOUND_TEXT_BYTES) {
+    return {
+      type: 'document',
+      source: { type: 'text', media_type: 'text/plain', data: fs.readFileSync(realPath, 'utf-8') },
+      title: filename,
+    };
+  }
+  return { type: 'text', text: `[Attachment ${filename} (${mimeType}, ${size} bytes) at ${attachment.path}${caption}]` };
+}
+
+/**
+ * Builds user turn content from text plus attachments.
+ * Without attachments this is just the text, so the common case is unchanged.
+ * Inlined attachments are preceded by a note naming the file and caption.
+ */
+export function buildUserContent(text: string, attachments: InboundAttachment[] = []): UserContent {
+  if (attachments.length === 0) return text;
+
+  const blocks: UserContentBlock[] = [];
+  if (text) blocks.push({ type: 'text', text });
+  for (const attachment of attachments) {
+    const block = attachmentToBlock(attachment);
+    if (block.type !== 'text') {
+      const filename = attachment.filename ?? path.basename(attachment.path);
+      const caption = attachment.caption ? ` — ${attachment.caption}` : '';
+      blocks.push({ type: 'text', text: `[Attachment ${filename}${caption}]` });
+    }
+    blocks.push(block);
+  }
+  return blocks;
+}
+
+/**
+ * Flattens user content to text for logs and transcripts.
+ * Binary blocks are represented by the note that precedes them.
+ */
+export function userContentText(content: UserContent): string {
+  if (typeof content === 'string') return content;
+  return content
+    .filter((block): block is { type: 'text'; text: string } => block.type === 'text')
+    .map((block) => block.text)
+    .join('\n');
+}
@@ -5,14 +5,23 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { MessageStream } from './message-stream.js';
 import { writeIpcCommand } from './ipc-writer.js';
-import { archiveTranscript } from './transcript.js';
-import { createSanitizeBashHook } from './security-hooks.js';
+import { archiveTranscript, TranscriptRecorder } from './transcript.js';
+import { createBashPolicyHook, createSanitizeBashHook, isValidEnvName, loadBashPolicy, type SecretExposure } from './security-hooks.js';
 import { createMcpServer, type McpServerConfig } from './mcp-server.js';
-
-const OUTPUT_START_MARKER = '---NANOCLAW_OUTPUT_START---';
-const OUTPUT_END_MARKER = '---NANOCLAW_OUTPUT_END---';
-
-const IPC_POLL_MS = 500;
+import { HostSnapshot } from './snapshot.js';
+import { resolveTaskResult, TaskReport, writeTaskResult } from './task-result.js';
+import { OutputWriter, type OutputFormat, type OutputUsage } from './output.js';
+import { OutboundQueue, type MessageTransport } from './outbox.js';
+import { UsageTracker } from './usage.js';
+import { checkLimits, createToolCallLimitHook, type LimitBreach, type RunLimits } from './limits.js';
+import { createToolPolicyHook, resolveToolOptions, type ToolPolicy } from './tool-policy.js';
+import { configureRedaction, redactionCount } from './redact.js';
+import { buildUserContent, parseInboundAttachments, type InboundAttachment, type UserContent } from './attachments.js';
+import { formatInputTurn, IpcInputWatcher, waitForInputTurn, type IpcInputMessage } from './ipc-input.js';
+import { loadPersonality } from './personality.js';
+import { formatLocalTime, localDate, resolveLocale, resolveTimezone } from './time.js';
+import { formatMemory, selectPromptMemories } from './memory.js';
+import { appendSessionsIndex, readSessionsIndex, summarizeSession } from './sessions-index.js';
 
 interface ContainerInput {
   prompt: string;
@@ -21,8 +30,20 @@ interface ContainerInput {
   chatJid: string;
   isMain: boolean;
   isScheduledTask: boolean;
+  /** ID of the scheduled task being run; echoed in the task_result IPC command */
+  taskId?: string;
   assistantName: string;
   secrets: Record<string, string>;
+  outputFormat?: OutputFormat;
+  /** 'stdout' keeps send_message on progress sentinels for hosts without the messages/ channel */
+  messageTransport?: MessageTransport;
+  attachments?: InboundAttachment[];
+  limits?: RunLimits;
+  toolPolicy?: ToolPolicy;
+  redactPatterns?: string[];
+  secretExposure?: Record<string, SecretExposure>;
+  timezone?: string;
+  locale?: string;
 }
 
 /**
@@ -36,7 +57,9 @@ async function readStdin(): Promise<ContainerInput> {
     process.stdin.on('data', (chunk) => { data += chunk; });
     process.stdin.on('end', () => {
       try {
-        resolve(JSON.parse(data) as ContainerInput);
+        const input = JSON.parse(data) as ContainerInput;
+        input.attachments = parseInboundAttachments(input.attachments, 'ContainerInput');
+        resolve(input);
       } catch (err) {
         reject(new Error(`Failed to parse stdin JSON: ${err}`));
       }
@@ -45,67 +68,42 @@ async function readStdin(): Promise<ContainerInput> {
   });
 }
 
-/**
- * Emits a sentinel-marked output block to stdout.
- * The host parses these markers to extract messages for delivery.
- */
-function emitOutput(text: string): void {
-  process.stdout.write(`\n${OUTPUT_START_MARKER}\n${text}\n${OUTPUT_END_MARKER}\n`);
-}
-
-/**
- * Reads an optional personality file from the data directory.
- * Returns empty string if not found.
- */
-function readPersonalityFile(filePath: string): string {
-  try {
-    if (fs.existsSync(filePath)) {
-      return fs.readFileSync(filePath, 'utf-8').trim();
-    }
-  } catch {
-    // Non-fatal — personality files are optional
-  }
-  return '';
-}
-
 /**
  * Builds the system prompt with personality, identity, and context.
  * MCP tools are wired directly via the SDK — no need to describe them in prose.
  */
-function buildSystemPrompt(input: ContainerInput): string {
+function buildSystemPrompt(input: ContainerInput, timezone: string, locale: string): string {
   const parts: string[] = [];
 
-  // Personality files: IDENTITY.md and SOUL.md from mounted /data/
-  const identity = readPersonalityFile('/data/IDENTITY.md');
-  const soul = readPersonalityFile('/data/SOUL.md');
-
-  if (identity) {
-    parts.push(identity);
+  // Personality files: global defaults from /global, overridden per file by /data
+  const sections = loadPersonality({
+    assistantName: input.assistantName,
+    groupFolder: input.groupFolder,
+    date: localDate(new Date(), timezone),
+    timezone,
+  });
+  for (const section of sections) {
+    parts.push(section);
     parts.push('');
   }
 
-  if (soul) {
-    parts.push(soul);
+  // Session summaries from previous conversations (written at the end of each session)
+  const summaries = readSessionsIndex()
+    .filter((s) => s.summary)
+    .slice(-5)
+    .map((s) => `- ${s.timestamp.slice(0, 10)}: ${s.summary}`);
+  if (summaries.length > 0) {
+    parts.push('## Recent conversation context');
+    parts.push(summaries.join('\n'));
     parts.push('');
   }
 
-  // Session summaries from previous conversations
-  const sessionsIndex = readPersonalityFile('/data/sessions-index.json');
-  if (sessionsIndex) {
-    try {
-      const sessions = JSON.parse(sessionsIndex) as Array<{ summary?: string }>;
-      const summaries = sessions
-        .filter((s) => s.summary)
-        .map((s) => s.summary)
-        .slice(-5);
-      if (summaries.length > 0) {
-        parts.push('## Recent conversation context');
-        parts.push(summaries.join('\n'));
-        parts.push('');
-      }
-    } catch {
-      // Non-fatal — sessions index may be malformed
-    }
+  // Long-term memories: all pinned ones plus those relevant to this prompt
+  const memories = selectPromptMemories(input.prompt);
+  if (memories.length > 0) {
+    parts.push('## Memories');
+    parts.push(memories.map(formatMemory).join('\n'));
+    parts.push('');
   }
 
   parts.push(`You are ${input.assistantName}, a helpful AI assistant.`);
@@ -117,9 +115,16 @@ function buildSystemPrompt(input: ContainerInput): string {
     parts.push('You are in a non-main group with restricted permissions.');
   }
 
+  parts.push('');
+  parts.push('## Current time');
+  parts.push('');
+  parts.push(`When this session started it was ${formatLocalTime(new Date(), timezone, locale)}. The group's timezone is ${timezone} and its locale is ${locale}.`);
+  parts.push(`Interpret times people mention ("9am", "tomorrow", "every Monday") in ${timezone} unless they say otherwise. \`schedule_task\` does the same: pass local times without a UTC offset.`);
+
   if (input.isScheduledTask) {
     parts.push('');
     parts.push('This is a SCHEDULED TASK execution. Complete the task and send any output via send_message.');
+    parts.push('When you are done, call `task_complete`. If there is nothing worth reporting, use status "skipped" so the chat is not sent a "nothing to report" message.');
   }
 
   parts.push('');
@@ -128,6 +133,10 @@ function buildSystemPrompt(input: ContainerInput): string {
   parts.push('Your output is sent to the user or group.');
   parts.push('');
   parts.push('You also have `send_message` which sends a message immediately while you are still working. This is useful when you want to acknowledge a request before starting longer work, or to send intermediate progress updates.');
+  parts.push('');
+  parts.push('When you learn a durable fact about the people or work in this group, save it with `remember` (use `recall` to look one up, `forget` to remove an outdated one).');
+  parts.push('');
+  parts.push('To share a file you created (screenshot, chart, PDF, audio), use `send_file` with its path under /data or /tmp instead of describing it in prose.');
 
   parts.push('');
   parts.push('## Collaboration');
@@ -137,55 +146,6 @@ function buildSystemPrompt(input: ContainerInput): string {
   return parts.join('\n');
 }
 
-/**
- * Drains all pending IPC input messages from the input directory.
- * Returns an array of formatted message strings.
- */
-function drainIpcInput(inputDir: string): string[] {
-  const messages: string[] = [];
-  try {
-    if (!fs.existsSync(inputDir)) return messages;
-    const files = fs.readdirSync(inputDir).sort();
-
-    for (const file of files) {
-      if (file === '_close' || !file.endsWith('.json')) continue;
-      const filePath = path.join(inputDir, file);
-      try {
-        const raw = fs.readFileSync(filePath, 'utf-8');
-        const msg = JSON.parse(raw) as { sender_name?: string; content?: string; text?: string };
-        fs.unlinkSync(filePath);
-        // Support both { sender_name, content } and { text } formats
-        const text = msg.content || msg.text || '';
-        const sender = msg.sender_name || 'User';
-        if (text) {
-          messages.push(`[${sender}]: ${text}`);
-        }
-      } catch {
-        try { fs.unlinkSync(path.join(inputDir, file)); } catch {}
-      }
-    }
-  } catch {
-    // Non-fatal
-  }
-  return messages;
-}
-
-/**
- * Checks if the _close sentinel file exists in the input directory.
- */
-function shouldClose(inputDir: string): boolean {
-  try {
-    const closePath = path.join(inputDir, '_close');
-    if (fs.existsSync(closePath)) {
-      fs.unlinkSync(closePath);
-      return true;
-    }
-  } catch {
-    // Non-fatal
-  }
-  return false;
-}
-
 /**
  * Main entry point. Reads input, runs Claude Agent SDK session
  * with a push-based message stream for multi-turn, and archives transcript.
@@ -208,8 +168,18 @@ async function main(): Promise<void> {
       // Non-fatal — secrets file may not exist (Docker runtime uses -e instead)
     }
   }
+  // Nothing that leaves the container may contain a secret value
+  for (const error of configureRedaction(secrets ?? {}, input.redactPatterns)) {
+    process.stderr.write(`${error}\n`);
+  }
+
   const sdkEnv: Record<string, string | undefined> = { ...process.env };
-  for (const [key, value] of Object.entries(secrets)) {
+  for (const [key, value] of Object.entries(secrets ?? {})) {
+    // The Bash hook can only unset shell identifiers; anything else would stay visible
+    if (!isValidEnvName(key)) {
+      process.stderr.write(`Skipping secret with invalid env name: ${JSON.stringify(key)}\n`);
+      continue;
+    }
     if (value) {
       sdkEnv[key] = value;
     }
@@ -221,37 +191,106 @@ async function main(): Promise<void> {
   const sessionsDir = path.join(dataDir, 'sessions');
   const inputDir = path.join(ipcDir, 'input');
   fs.mkdirSync(inputDir, { recursive: true });
+  const inputWatcher = new IpcInputWatcher(inputDir);
+
+  // All sentinel blocks (results, send_message progress, errors) share one writer
+  // so the negotiated format and session metadata stay consistent.
+  const output = new OutputWriter(process.stdout, input.outputFormat ?? 'text');
+  const usageTracker = new UsageTracker(input.groupFolder, input.isScheduledTask);
+
+  // Group timezone and locale, for the prompt and for schedule_task (host default: container zone, en-US)
+  const timezone = resolveTimezone(input.timezone);
+  const locale = resolveLocale(input.locale);
+
+  // Scheduled runs end with a task_result IPC command; the agent can set its verdict via task_complete
+  const taskReport = input.isScheduledTask ? new TaskReport() : undefined;
+  const startedAt = Date.now();
+  let lastResult = '';
+  let runError: string | undefined;
+
+  // Task/group snapshots from the host, kept current for long-lived multi-turn containers
+  const snapshot = new HostSnapshot(ipcDir);
+  snapshot.watch();
 
   // 4. Create MCP server instance for tool access
   const mcpConfig: McpServerConfig = {
     groupFolder: input.groupFolder,
     chatJid: input.chatJid,
     ipcDir,
+    sessionsDir,
     isMain: input.isMain,
     assistantName: input.assistantName,
-    outputStream: process.stdout,
+    timezone,
+    locale,
+    output,
+    outbox: new OutboundQueue(ipcDir, input.chatJid, input.groupFolder),
+    messageTransport: input.messageTransport ?? 'ipc',
+    snapshot,
+    ...(taskReport ? { taskReport } : {}),
+    toolPolicy: input.toolPolicy,
   };
   const mcpServer = createMcpServer(mcpConfig);
 
   // 5. Build system prompt — appended to the built-in Claude Code prompt
   // (not replacing it, so the agent retains tool documentation and safety instructions)
-  const systemPrompt = buildSystemPrompt(input);
-
-  // 6. Prepare allowed tools (PascalCase — Claude Code tool names, not API tool names)
-  const allowedTools = [
-    'Bash',
-    'Read', 'Write', 'Edit', 'Glob', 'Grep',
-    'WebSearch', 'WebFetch',
-    'Task', 'TaskOutput', 'TaskStop',
-    'TodoWrite', 'NotebookEdit',
-    'mcp__mdclaw__*',
-  ];
+  const systemPrompt = buildSystemPrompt(input, timezone, locale);
+
+  // 6. Resolve allowed/disallowed tools from the group's tool policy (default: all tools)
+  const { allowedTools, disallowedTools } = resolveToolOptions(input.toolPolicy);
+
+  // Every secret is unset in Bash unless the host's exposure policy says otherwise
+  const sanitizeBashHook = createSanitizeBashHook(Object.keys(secrets ?? {}), input.secretExposure);
+
+  // Bash policy 'ask' mode: denied commands are forwarded to the main group for review
+  const requestBashApproval = (command: string, reason: string): void => {
+    writeIpcCommand(ipcDir, {
+      type: 'bash_approval_request',
+      payload: { command, reason, chat_jid: input.chatJid },
+      source_group: input.groupFolder,
+    });
+  };
 
   // 7. Run query with push-based message stream
-  let conversationLog = '';
+  const transcript = new TranscriptRecorder();
+  let prompt = buildUserContent(input.prompt, input.attachments);
   let sessionId: string | undefined;
   let resumeAt: string | undefined;
 
+  // Limit enforcement: once a ceiling is hit the session ends — no further follow-ups
+  // are accepted and the chat is told why. A usage breach (tokens, cost, wall clock)
+  // also interrupts the current query; the tool-call cap denies further calls instead,
+  // so the reply in progress can finish without them.
+  let limitBreach: LimitBreach | null = null;
+  let stopQuery: ((interrupt: boolean) => void) | undefined;
+  const stopForLimit = (breach: LimitBreach, interrupt: boolean): void => {
+    if (limitBreach) return;
+    limitBreach = breach;
+    usageTracker.stopReason = breach.limit;
+    process.stderr.write(`Limit reached: ${breach.limit}\n`);
+    output.write('notice', breach.message);
+    stopQuery?.(interrupt);
+  };
+  const enforceLimits = (turns: number = output.turn): boolean => {
+    if (limitBreach) return true;
+    const breach = checkLimits(input.limits, usageTracker.snapshot(), turns);
+    if (breach) stopForLimit(breach, true);
+    return breach !== null;
+  };
+  const toolCallLimitHook = createToolCallLimitHook(input.limits, (breach) => stopForLimit(breach, false));
+  const wallClockTimer = input.limits?.maxWallClockSeconds !== undefined
+    ? setTimeout(() => enforceLimits(), input.limits.maxWallClockSeconds * 1000)
+    : undefined;
+
+  // Final results go to the chat unless a scheduled run asked to stay quiet via task_complete
+  const emitResult = (text: string, usage: OutputUsage | undefined): void => {
+    lastResult = text;
+    if (taskReport?.silenced) {
+      process.stderr.write('Scheduled task result withheld from chat (task_complete)\n');
+      return;
+    }
+    output.write('result', text, { usage });
+  };
+
   try {
     // Query loop: run query → wait for IPC message → run query with resume → repeat
     // Most follow-ups are piped into the stream during a single query() call.
@@ -259,37 +298,48 @@ async function main(): Promise<void> {
     while (true) {
       // Create a push-based message stream and pipe the initial prompt
       const stream = new MessageStream();
-      stream.push(input.prompt);
+      stream.push(prompt);
+      transcript.recordPrompt(prompt);
+      output.turn++;
 
-      // Poll IPC for follow-up messages during the query (non-scheduled only)
-      let ipcPolling = !input.isScheduledTask;
+      // Feed follow-up messages into the stream during the query (non-scheduled only)
       let closedDuringQuery = false;
-      const pollIpc = (): void => {
-        if (!ipcPolling) return;
-        if (shouldClose(inputDir)) {
-          closedDuringQuery = true;
-          stream.end();
-          ipcPolling = false;
+      const onMessages = (messages: IpcInputMessage[], accept: () => void): void => {
+        // Declined messages stay in input/ for the next run (enforceLimits stops the watcher)
+        if (enforceLimits()) return;
+        // Too many turns for this session: leave the follow-ups for the next run but let
+        // the turn in progress finish; the limit is reported once this query ends
+        if (checkLimits(input.limits, usageTracker.snapshot(), output.turn + messages.length)) {
+          inputWatcher.stop();
           return;
         }
-        const messages = drainIpcInput(inputDir);
-        for (const text of messages) {
-          stream.push(text);
+        for (const message of messages) {
+          const content = formatInputTurn([message]);
+          stream.push(content);
+          transcript.recordPrompt(content);
+          output.turn++;
         }
-        setTimeout(pollIpc, IPC_POLL_MS);
+        accept();
+      };
+      const onClose = (): void => {
+        closedDuringQuery = true;
+        stream.end();
       };
-      if (ipcPolling) {
-        setTimeout(pollIpc, IPC_POLL_MS);
+      if (!input.isScheduledTask) {
+        inputWatcher.on('messages', onMessages).on('close', onClose);
+        inputWatcher.start();
       }
 
       // Create a fresh MCP server for each query() call
       const currentMcpServer = sessionId ? createMcpServer(mcpConfig) : mcpServer;
+      usageTracker.startQuery();
 
       const queryStream = query({
         prompt: stream,
         options: {
           cwd: '/data',
           allowedTools,
+          disallowedTools,
           appendSystemPrompt: systemPrompt,
           permissionMode: 'bypassPermissions' as const,
           env: sdkEnv,
@@ -301,19 +351,35 @@ async function main(): Promise<void> {
             },
           },
           hooks: {
-            PreToolUse: [{ matcher: 'Bash', hooks: [createSanitizeBashHook()] }],
+            PreToolUse: [
+              { hooks: [toolCallLimitHook] },
+              { hooks: [createToolPolicyHook(input.toolPolicy)] },
+              { matcher: 'Bash', hooks: [createBashPolicyHook(loadBashPolicy(), requestBashApproval), sanitizeBashHook] },
+            ],
           },
           ...(sessionId ? { resume: sessionId } : {}),
           ...(resumeAt ? { resumeSessionAt: resumeAt } : {}),
         },
       });
+      stopQuery = (interrupt) => {
+        inputWatcher.stop();
+        stream.end();
+        if (!interrupt) return;
+        queryStream.interrupt().catch(() => {
+          // Query may already have finished
+        });
+      };
 
       // Process streamed messages — emit output immediately as results arrive
       let response = '';
+      let usage: OutputUsage | undefined;
       for await (const message of queryStream) {
+        transcript.recordSdkMessage(message);
         // Capture session ID from any message
         if ('session_id' in message && message.session_id) {
           sessionId = message.session_id as string;
+          output.sessionId = sessionId;
+          usageTracker.sessionId = sessionId;
         }
         // Track last assistant UUID for precise resume
         if (message.type === 'assistant' && 'uuid' in message && message.uuid) {
@@ -328,16 +394,26 @@ async function main(): Promise<void> {
                 response = block.text;
               }
             }
+            const toolCalls = msg.content.filter((block) => block.type === 'tool_use').length;
+            if (toolCalls > 0) {
+              usageTracker.recordToolCalls(toolCalls);
+            }
           }
         } else if (message.type === 'result' && message.subtype === 'success' && 'result' in message) {
           response = message.result;
         }
+        if (message.type === 'result') {
+          usage = usageTracker.recordResult(message, output.turn);
+          writeUsage(usageTracker, ipcDir);
+          if (message.subtype !== 'success') {
+            runError = `Query ended with ${message.subtype}`;
+          }
+        }
 
         // Emit output immediately when we get a result — don't wait for the loop to end,
         // because for multi-turn streams the loop may never end until _close.
         if (message.type === 'result' && response) {
-          emitOutput(response);
-          conversationLog += `## User\n${input.prompt}\n\n## Assistant\n${response}\n\n`;
+          emitResult(response, usage);
           response = '';
 
           // For scheduled tasks, end the stream to finish the query
@@ -345,66 +421,111 @@ async function main(): Promise<void> {
             stream.end();
           }
         }
+        if (message.type === 'result') {
+          enforceLimits();
+        }
       }
+      stopQuery = undefined;
 
-      // Stop IPC polling for this query
-      ipcPolling = false;
+      // Stop watching IPC input for this query
+      inputWatcher.stop();
+      inputWatcher.off('messages', onMessages).off('close', onClose);
 
       // Emit any remaining response that wasn't emitted yet
       if (response) {
-        emitOutput(response);
-        conversationLog += `## User\n${input.prompt}\n\n## Assistant\n${response}\n\n`;
+        emitResult(response, usage);
       }
 
-      // If close sentinel arrived during query, or scheduled task, we're done
-      if (closedDuringQuery || input.isScheduledTask) {
+      // If close sentinel arrived during query, scheduled task, or a limit was hit, we're done
+      if (closedDuringQuery || input.isScheduledTask || limitBreach) {
         break;
       }
 
-      // Wait for the next IPC message or _close sentinel
-      const nextMessage = await waitForNextMessage(inputDir);
+      // Wait for the next IPC message(s) or _close sentinel (or the wall-clock limit);
+      // messages that piled up while idle arrive as one combined turn. If starting
+      // that turn would break a limit they are declined and stay in input/ for the next run.
+      const nextMessage = await waitForInputTurn(
+        inputWatcher,
+        () => limitBreach !== null,
+        () => !enforceLimits(output.turn + 1),
+      );
       if (nextMessage === null) {
-        break; // _close sentinel
+        break; // _close sentinel or limit reached
       }
 
       // Set up next iteration with the follow-up prompt
-      input.prompt = nextMessage;
+      prompt = nextMessage;
     }
   } catch (err) {
     const errMsg = err instanceof Error ? err.message : String(err);
     process.stderr.write(`Agent error: ${errMsg}\n`);
-    emitOutput(`I encountered an error: ${errMsg}`);
+    output.write('error', `I encountered an error: ${errMsg}`);
+    runError = errMsg;
   } finally {
-    if (conversationLog) {
+    clearTimeout(wallClockTimer);
+    inputWatcher.stop();
+    snapshot.close();
+    if (taskReport) {
+      reportTaskResult(ipcDir, input, taskReport, {
+        // limitBreach is assigned inside enforceLimits, which TypeScript does not track here
+        error: runError ?? (limitBreach as LimitBreach | null)?.message,
+        lastResult,
+        durationMs: Date.now() - startedAt,
+        sessionId,
+      });
+    }
+    writeUsage(usageTracker, ipcDir);
+    if (redactionCount() > 0) {
+      process.stderr.write(`Redacted ${redactionCount()} secret occurrence(s) from output\n`);
+    }
+    if (transcript.entries.length > 0) {
       try {
-        archiveTranscript(sessionsDir, input.groupFolder, conversationLog);
+        const archivePath = archiveTranscript(sessionsDir, input.groupFolder, transcript.entries, usageTracker.summaryFields());
+        appendSessionsIndex({
+          id: sessionId ?? path.basename(archivePath, '.md'),
+          timestamp: new Date().toISOString(),
+          transcript: path.relative(dataDir, archivePath),
+          ...summarizeSession(transcript.entries),
+        });
       } catch {
-        // Non-fatal — transcript archival is best-effort
+        // Non-fatal — transcript archival and indexing are best-effort
       }
     }
   }
 }
 
 /**
- * Waits for the next IPC message or _close sentinel.
- * Returns the formatted message string, or null if _close received.
+ * Resolves and writes the task_result for a scheduled run (see
+ * resolveTaskResult). Failure sets a non-zero exit code.
  */
-function waitForNextMessage(inputDir: string): Promise<string | null> {
-  return new Promise((resolve) => {
-    const poll = (): void => {
-      if (shouldClose(inputDir)) {
-        resolve(null);
-        return;
-      }
-      const messages = drainIpcInput(inputDir);
-      if (messages.length > 0) {
-        resolve(messages[0]);
-        return;
-      }
-      setTimeout(poll, IPC_POLL_MS);
-    };
-    poll();
-  });
+function reportTaskResult(
+  ipcDir: string,
+  input: ContainerInput,
+  taskReport: TaskReport,
+  run: { error?: string; lastResult: string; durationMs: number; sessionId?: string },
+): void {
+  const result = resolveTaskResult(taskReport, { ...run, taskId: input.taskId });
+
+  try {
+    writeTaskResult(ipcDir, input.groupFolder, result);
+  } catch (err) {
+    process.stderr.write(`Failed to write task result: ${err}\n`);
+  }
+  if (result.status === 'failure') {
+    process.stderr.write(`Scheduled task failed: ${result.error ?? 'unknown error'}\n`);
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Writes usage.json for the host. Best-effort: accounting must never fail a run.
+ */
+function writeUsage(usageTracker: UsageTracker, ipcDir: string): void {
+  try {
+    usageTracker.writeTo(ipcDir);
+  } catch (err) {
+    process.stderr.write(`Failed to write usage.json: ${err}\n`);
+  }
 }
 
 main().catch((err) => {
@@ -0,0 +1,126 @@
+// mdclaw agent-runner: IPC command types and payload schemas
+// One zod schema per command the container may write to ipc/{group}/tasks/. The
+// writer validates every command against these before it reaches disk, and tests
+// check them against the ipc-protocol.md fixture contract.
+
+import { z } from 'zod';
+
+/**
+ * Written into every command as `protocol_version`. Bump it when a payload
+ * changes incompatibly so the host can reject or adapt to old containers.
+ */
+export const IPC_PROTOCOL_VERSION = 1;
+
+const scheduleType = z.enum(['cron', 'interval', 'once']);
+const contextMode = z.enum(['group', 'isolated']);
+const taskId = z.string().min(1);
+
+// The host's group folder rule (ARCHITECTURE.md, "Group folder names"), "global" included
+const groupFolder = z.string()
+  .regex(/^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/, 'folder must start with a letter or digit and have at most 64 letters, digits, hyphens and underscores')
+  .refine((folder) => folder !== 'global', { message: 'folder "global" is reserved' });
+
+/**
+ * Payload schema per command type. Payloads are strict: an unknown field is
+ * almost always a typo the host would silently ignore.
+ */
+export const IPC_PAYLOAD_SCHEMAS = {
+  schedule_task: z.object({
+    prompt: z.string().min(1),
+    schedule_type: scheduleType,
+    schedule_value: z.string().min(1),
+    timezone: z.string().min(1),
+    context_mode: contextMode,
+    chat_jid: z.string(),
+  }).strict(),
+  pause_task: z.object({ task_id: taskId }).strict(),
+  resume_task: z.object({ task_id: taskId }).strict(),
+  cancel_task: z.object({ task_id: taskId }).strict(),
+  update_task: z.object({
+    task_id: taskId,
+    prompt: z.string().min(1).optional(),
+    schedule_type: scheduleType.optional(),
+    schedule_value: z.string().min(1).optional(),
+    timezone: z.string().min(1).optional(),
+    context_mode: contextMode.optional(),
+  }).strict().refine(
+    (p) => (p.schedule_type === undefined) === (p.schedule_value === undefined),
+    { message: 'schedule_type and schedule_value must be sent together' },
+  ),
+  run_task_now: z.object({ task_id: taskId }).strict(),
+  register_group: z.object({
+    name: z.string().min(1),
+    folder: groupFolder,
+    trigger: z.string().min(1),
+    chat_jid: z.string().min(1),
+  }).strict(),
+  refresh_groups: z.object({}).strict(),
+  task_result: z.object({
+    task_id: z.string().optional(),
+    status: z.enum(['success', 'failure', 'skipped']),
+    summary: z.string(),
+    error: z.string().optional(),
+    duration_ms: z.number().int().nonnegative(),
+    notified: z.boolean(),
+    session_id: z.string().optional(),
+  }).strict(),
+  bash_approval_request: z.object({
+    command: z.string(),
+    reason: z.string(),
+    chat_jid: z.string(),
+  }).strict(),
+};
+
+export type IpcCommandType = keyof typeof IPC_PAYLOAD_SCHEMAS;
+
+export type IpcPayload<T extends IpcCommandType> = z.infer<(typeof IPC_PAYLOAD_SCHEMAS)[T]>;
+
+/**
+ * A command as built by the tools, discriminated by `type`.
+ */
+export type IpcCommand = {
+  [T in IpcCommandType]: {
+    type: T;
+    payload: IpcPayload<T>;
+    source_group: string;
+    /** Set by sendIpcRequest; the host answers in responses/{request_id}.json */
+    request_id?: string;
+  };
+}[IpcCommandType];
+
+/**
+ * Field names a command's payload may carry, for comparing against the contract.
+ */
+export function ipcPayloadFields(type: IpcCommandType): string[] {
+  const schema = IPC_PAYLOAD_SCHEMAS[type];
+  const object = schema instanceof z.ZodEffects ? schema.innerType() : schema;
+  return Object.keys(object.shape);
+}
+
+/**
+ * The envelope as written to disk: the command plus the protocol version.
+ */
+export const ipcCommandSchema = z.object({
+  type: z.enum(Object.keys(IPC_PAYLOAD_SCHEMAS) as [IpcCommandType, ...IpcCommandType[]]),
+  payload: z.unknown(),
+  source_group: z.string().min(1),
+  request_id: z.string().optional(),
+  protocol_version: z.literal(IPC_PROTOCOL_VERSION),
+}).strict().superRefine((command, ctx) => {
+  const result = IPC_PAYLOAD_SCHEMAS[command.type].safeParse(command.payload);
+  for (const issue of result.success ? [] : result.error.issues) {
+    ctx.addIssue({ ...issue, path: ['payload', ...issue.path] });
+  }
+});
+
+/**
+ * Validates a command envelope and its payload. Returns a readable error listing
+ * every problem, e.g. `schedule_task: payload.prompt: Required`.
+ */
+export function validateIpcCommand(command: unknown): { ok: true } | { ok: false; error: string } {
+  const result = ipcCommandSchema.safeParse(command);
+  if (result.success) return { ok: true };
+  const type = (command as { type?: unknown } | null)?.type;
+  const issues = result.error.issues.map((i) => `${i.path.length > 0 ? `${i.path.join('.')}: ` : ''}${i.message}`);
+  return { ok: false, error: `${typeof type === 'string' ? type : 'IPC command'}: ${issues.join('; ')}` };
+}
@@ -0,0 +1,420 @@
+// mdclaw agent-runner: follow-up messages and _close from /ipc/input
+// The host writes each chat message as a JSON file (atomically: .tmp, then rename)
+// and a `_close` sentinel when the conversation is over.
+
+import { EventEmitter } from 'node:events';
+import fs from 'node:fs';
+import path from 'node:path';
+import { buildUserContent, parseInboundAttachments, type InboundAttachment, type UserContent } from './attachments.js';
+
+// Safety-net scan while fs.watch is active; catches writes on mounts where
+// inotify events don't propagate (e.g. some Docker Desktop / virtiofs setups)
+const WATCH_FALLBACK_POLL_MS = 2_000;
+
+// Scan interval when fs.watch is unavailable
+const POLL_ONLY_MS = 500;
+
+// How often an idle wait re-checks its stopped() predicate (e.g. a wall-clock limit)
+const STOP_CHECK_MS = 500;
+
+// A file that fails to parse this soon after its last write may still be in progress
+// (a writer that skipped the .tmp-then-rename step); it is left for a later scan
+const PARTIAL_WRITE_GRACE_MS = 1_000;
+
+// Claimed files live here until their messages have been handed off; anything left
+// over from a crashed run is moved back into input/ when the next watcher is created
+const PROCESSING_DIR = 'processing';
+
+// Files that can't be turned into a message, each with a `{file}.error.txt` note
+const FAILED_DIR = 'failed';
+
+/**
+ * One follow-up message from the host, as written to ipc/{group}/input/.
+ */
+export interface IpcInputMessage {
+  sender: string;
+  text: string;
+  attachments: InboundAttachment[];
+}
+
+/**
+ * Messages claimed from the input directory. Their files stay in processing/
+ * until acknowledged, so a crash before hand-off does not lose them.
+ */
+export interface IpcInputBatch {
+  messages: IpcInputMessage[];
+  /** Deletes the files of the first `count` messages (default: all) and of any duplicates. */
+  ack(count?: number): void;
+  /** Moves the files of messages not acknowledged back into input/ for a later scan or run. */
+  release(): void;
+}
+
+interface ClaimedFile {
+  id: string;
+  filePath: string;
+  claimedPath: string;
+}
+
+function moveToFailed(inputDir: string, claimedPath: string, file: string, reason: string): void {
+  try {
+    const failedDir = path.join(inputDir, FAILED_DIR);
+    fs.mkdirSync(failedDir, { recursive: true });
+    fs.renameSync(claimedPath, path.join(failedDir, file));
+    fs.writeFileSync(path.join(failedDir, `${file}.error.txt`), `${new Date().toISOString()} ${reason}\n`);
+  } catch {
+    // Last resort: don't let an unmovable file block the queue
+    try { fs.unlinkSync(claimedPath); } catch {}
+  }
+}
+
+// True for a recently written file that doesn't parse yet
+function isPartialWrite(filePath: string): boolean {
+  try {
+    if (Date.now() - fs.statSync(filePath).mtimeMs >= PARTIAL_WRITE_GRACE_MS) return false;
+    JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Claims all pending IPC input messages from the input directory, oldest first.
+ * - Each file is claimed by renaming it into processing/, so a scan never reads a
+ *   file another scan is handling and nothing is deleted before it is delivered.
+ * - `.tmp` files and dotfiles are writes in progress and are left alone, as are
+ *   just-written files that don't parse yet.
+ * - Malformed or empty messages are moved to failed/ with an error note.
+ * - Messages whose id (the `id` field, or the file name) is already in `seen`, or
+ *   earlier in the same batch, are dropped as duplicates. Ids are added to `seen`
+ *   only when their message is acknowledged.
+ */
+export function claimIpcInput(inputDir: string, seen: Set<string> = new Set()): IpcInputBatch {
+  const messages: IpcInputMessage[] = [];
+  const claimed: ClaimedFile[] = [];
+  const duplicates: string[] = [];
+  let failed = 0;
+
+  try {
+    if (!fs.existsSync(inputDir)) return { messages, ack: () => {}, release: () => {} };
+    const processingDir = path.join(inputDir, PROCESSING_DIR);
+    const files = fs.readdirSync(inputDir, { withFileTypes: true })
+      .filter((e) => e.isFile() && e.name !== '_close' && !e.name.startsWith('.') && !e.name.endsWith('.tmp'))
+      .map((e) => e.name)
+      .sort();
+
+    for (const file of files) {
+      const filePath = path.join(inputDir, file);
+      const claimedPath = path.join(processingDir, file);
+      if (file.endsWith('.json') && isPartialWrite(filePath)) continue;
+      try {
+        fs.mkdirSync(processingDir, { recursive: true });
+        fs.renameSync(filePath, claimedPath);
+      } catch {
+        // Gone already (claimed by an overlapping scan) or not movable; skip it
+        continue;
+      }
+
+      if (!file.endsWith('.json')) {
+        moveToFailed(inputDir, claimedPath, file, 'Not a .json message file');
+        failed++;
+        continue;
+      }
+
+      let msg: {
+        id?: string;
+        sender_name?: string;
+        content?: string;
+        text?: string;
+        attachments?: unknown;
+      };
+      try {
+        msg = JSON.parse(fs.readFileSync(claimedPath, 'utf-8'));
+      } catch (err) {
+        moveToFailed(inputDir, claimedPath, file, `Invalid JSON: ${err instanceof Error ? err.message : String(err)}`);
+        failed++;
+        continue;
+      }
+
+      const id = typeof msg?.id === 'string' && msg.id ? msg.id : file.replace(/\.json$/, '');
+      if (seen.has(id) || claimed.some((c) => c.id === id)) {
+        duplicates.push(claimedPath);
+        continue;
+      }
+
+      // Support both { sender_name, content } and { text } formats
+      const text = msg.content || msg.text || '';
+      const attachments = parseInboundAttachments(msg.attachments, file);
+      if (!text && attachments.length === 0) {
+        moveToFailed(inputDir, claimedPath, file, 'Message has no content, text or attachments');
+        failed++;
+        continue;
+      }
+
+      claimed.push({ id, filePath, claimedPath });
+      messages.push({ sender: msg.sender_name || 'User', text, attachments });
+    }
+  } catch {
+    // Non-fatal
+  }
+
+  if (messages.length > 0 || duplicates.length > 0 || failed > 0) {
+    process.stderr.write(`[ipc-input] Claimed ${messages.length} message(s), ${duplicates.length} duplicate(s), ${failed} failed\n`);
+  }
+
+  let settled = 0;
+  return {
+    messages,
+    ack: (count = claimed.length) => {
+      for (const claimedPath of duplicates.splice(0)) {
+        try { fs.unlinkSync(claimedPath); } catch {}
+      }
+      for (; settled < Math.min(count, claimed.length); settled++) {
+        seen.add(claimed[settled].id);
+        try { fs.unlinkSync(claimed[settled].claimedPath); } catch {}
+      }
+    },
+    release: () => {
+      let released = 0;
+      for (; settled < claimed.length; settled++) {
+        try {
+          fs.renameSync(claimed[settled].claimedPath, claimed[settled].filePath);
+          released++;
+        } catch {
+          // Left in processing/; recovered when the next watcher is created
+        }
+      }
+      if (released > 0) {
+        process.stderr.write(`[ipc-input] Returned ${released} undelivered message(s) to input/\n`);
+      }
+    },
+  };
+}
+
+/**
+ * Claims and immediately acknowledges all pending IPC input messages.
+ */
+export function drainIpcInput(inputDir: string, seen?: Set<string>): IpcInputMessage[] {
+  const batch = claimIpcInput(inputDir, seen);
+  batch.ack();
+  return batch.messages;
+}
+
+/**
+ * Moves files left in processing/ by a run that died before acknowledging them
+ * back into the input directory, so they are delivered again.
+ */
+export function recoverIpcInput(inputDir: string): number {
+  const processingDir = path.join(inputDir, PROCESSING_DIR);
+  let recovered = 0;
+  try {
+    for (const file of fs.readdirSync(processingDir)) {
+      try {
+        fs.renameSync(path.join(processingDir, file), path.join(inputDir, file));
+        recovered++;
+      } catch {
+        // Non-fatal
+      }
+    }
+  } catch {
+    // No processing dir: nothing to recover
+  }
+  if (recovered > 0) {
+    process.stderr.write(`[ipc-input] Recovered ${recovered} unacknowledged message file(s)\n`);
+  }
+  return recovered;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Combines messages into one user turn in the host's prompt shape:
+ *
+ *   <context>
+ *   <msg sender="Alice">...</msg>
+ *   <msg sender="Bob" attachments="photo.jpg">...</msg>
+ *   </context>
+ *   Respond to the above.
+ *
+ * Attachments from all messages follow the text as content blocks, in order.
+ */
+export function formatInputTurn(messages: IpcInputMessage[]): UserContent {
+  const lines = messages.map((m) => {
+    const files = m.attachments.map((a) => a.filename ?? path.basename(a.path));
+    const attrs = `sender="${escapeXml(m.sender)}"${files.length > 0 ? ` attachments="${escapeXml(files.join(', '))}"` : ''}`;
+    return `<msg ${attrs}>${escapeXml(m.text)}</msg>`;
+  });
+  const text = `<context>\n${lines.join('\n')}\n</context>\nRespond to the above.`;
+  return buildUserContent(text, messages.flatMap((m) => m.attachments));
+}
+
+/**
+ * Checks if the _close sentinel file exists in the input directory.
+ */
+export function shouldClose(inputDir: string): boolean {
+  try {
+    const closePath = path.join(inputDir, '_close');
+    if (fs.existsSync(closePath)) {
+      fs.unlinkSync(closePath);
+      return true;
+    }
+  } catch {
+    // Non-fatal
+  }
+  return false;
+}
+
+export interface IpcInputWatcherOptions {
+  /** Scan interval while fs.watch is active (default 2000 ms) */
+  fallbackPollMs?: number;
+  /** Scan interval when fs.watch is unavailable (default 500 ms) */
+  pollMs?: number;
+  /** Disable fs.watch and rely on polling only (for mounts known not to deliver events) */
+  disableWatch?: boolean;
+}
+
+/**
+ * Watches the IPC input directory and delivers its contents as events:
+ * - 'messages' (IpcInputMessage[], accept): every message claimed in one scan, oldest
+ *   first. A listener calls `accept(count?)` for the messages it delivered (default:
+ *   all); only those are acknowledged, and the rest go back to input/. A listener
+ *   that declines messages should stop the watcher, or they are offered again.
+ * - 'close': the _close sentinel appeared; the watcher stops itself
+ *
+ * Creating a watcher recovers files a previous run claimed but never acknowledged.
+ * fs.watch triggers a scan as soon as the host renames a file into place; a
+ * slower interval scan runs alongside as a fallback. The watcher only consumes
+ * files while started, so stop it whenever nothing is listening and start it
+ * again (which scans immediately) to pick up what arrived in between.
+ */
+export class IpcInputWatcher extends EventEmitter<{ messages: [IpcInputMessage[], (count?: number) => void]; close: [] }> {
+  private watcher: fs.FSWatcher | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private scanQueued = false;
+  // Message ids delivered this session; the host may retry a write it thinks failed
+  private readonly seen = new Set<string>();
+
+  constructor(
+    private readonly inputDir: string,
+    private readonly options: IpcInputWatcherOptions = {},
+  ) {
+    super();
+    recoverIpcInput(inputDir);
+  }
+
+  get running(): boolean {
+    return this.timer !== null;
+  }
+
+  start(): void {
+    if (this.running) return;
+    fs.mkdirSync(this.inputDir, { recursive: true });
+
+    if (!this.options.disableWatch) {
+      try {
+        this.watcher = fs.watch(this.inputDir, () => this.queueScan());
+        this.watcher.on('error', () => this.fallBackToPolling());
+      } catch {
+        this.watcher = null;
+      }
+    }
+    this.timer = setInterval(() => this.scan(), this.pollInterval());
+    this.scan();
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private pollInterval(): number {
+    return this.watcher
+      ? this.options.fallbackPollMs ?? WATCH_FALLBACK_POLL_MS
+      : this.options.pollMs ?? POLL_ONLY_MS;
+  }
+
+  private fallBackToPolling(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = setInterval(() => this.scan(), this.pollInterval());
+  }
+
+  // A single rename can produce several watch events; coalesce them into one scan
+  private queueScan(): void {
+    if (this.scanQueued) return;
+    this.scanQueued = true;
+    setImmediate(() => {
+      this.scanQueued = false;
+      this.scan();
+    });
+  }
+
+  private scan(): void {
+    if (!this.running) return;
+    if (shouldClose(this.inputDir)) {
+      this.stop();
+      this.emit('close');
+      return;
+    }
+    const batch = claimIpcInput(this.inputDir, this.seen);
+    let accepted = 0;
+    if (batch.messages.length > 0) {
+      this.emit('messages', batch.messages, (count = batch.messages.length) => {
+        accepted = Math.max(accepted, count);
+      });
+    }
+    // Listeners run synchronously, so every hand-off has happened by now
+    batch.ack(accepted);
+    batch.release();
+  }
+}
+
+/**
+ * Waits between queries for the next follow-up. Everything drained in the first
+ * scan that finds input is coalesced into a single turn, so a burst of messages
+ * that arrived while no query was running is delivered whole and in order.
+ * Returns null if _close was received or `stopped()` turns true, or if `accepts`
+ * declines the messages, which then stay in input/ for the next run.
+ */
+export function waitForInputTurn(
+  watcher: IpcInputWatcher,
+  stopped: () => boolean = () => false,
+  accepts: (messages: IpcInputMessage[]) => boolean = () => true,
+): Promise<UserContent | null> {
+  return new Promise((resolve) => {
+    let settled = false;
+    const finish = (value: UserContent | null): void => {
+      if (settled) return;
+      settled = true;
+      clearInterval(stopCheck);
+      watcher.stop();
+      watcher.off('messages', onMessages).off('close', onClose);
+      resolve(value);
+    };
+    const onMessages = (messages: IpcInputMessage[], accept: () => void): void => {
+      if (!accepts(messages)) {
+        finish(null);
+        return;
+      }
+      accept();
+      finish(formatInputTurn(messages));
+    };
+    const onClose = (): void => finish(null);
+    const stopCheck = setInterval(() => {
+      if (stopped()) finish(null);
+    }, STOP_CHECK_MS);
+
+    if (stopped()) {
+      finish(null);
+      return;
+    }
+    watcher.on('messages', onMessages).on('close', onClose);
+    watcher.start();
+  });
+}
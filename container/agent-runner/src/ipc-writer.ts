@@ -3,29 +3,120 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import crypto from 'node:crypto';
+import { IPC_PROTOCOL_VERSION, validateIpcCommand, type IpcCommand } from './ipc-commands.js';
+import { redactDeep } from './redact.js';
 
-export interface IpcCommand {
-  type: string;
-  payload: Record<string, unknown>;
-  source_group: string;
+export type { IpcCommand } from './ipc-commands.js';
+
+/**
+ * A command before sendIpcRequest assigns its request_id. (Omit is applied per
+ * member, since Omit on the union itself would lose the type/payload pairing.)
+ */
+export type IpcRequestCommand = IpcCommand extends infer C ? (C extends IpcCommand ? Omit<C, 'request_id'> : never) : never;
+
+/**
+ * Written by the host to ipc/{group}/responses/{request_id}.json once it has
+ * processed a command. `result` carries command-specific data (e.g. a new task id).
+ */
+export interface IpcResponse {
+  request_id: string;
+  ok: boolean;
+  error?: string;
+  result?: Record<string, unknown>;
 }
 
+const IPC_RESPONSE_POLL_MS = 200;
+
+// How long a tool waits for the host to acknowledge a command
+export const IPC_RESPONSE_TIMEOUT_MS = 10_000;
+
 /**
- * Writes an IPC command file atomically (write to .tmp, then rename).
- * Filename format: ${timestamp}-${random}.json
+ * Returns a unique, lexically time-ordered IPC filename stem: ${timestamp}-${random}
  */
-export function writeIpcCommand(ipcDir: string, command: IpcCommand): string {
-  const tasksDir = path.join(ipcDir, 'tasks');
-  fs.mkdirSync(tasksDir, { recursive: true });
+export function ipcFileStem(): string {
+  return `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+}
 
-  const timestamp = Date.now();
-  const random = crypto.randomBytes(4).toString('hex');
-  const filename = `${timestamp}-${random}.json`;
-  const tmpPath = path.join(tasksDir, `.${filename}.tmp`);
-  const finalPath = path.join(tasksDir, filename);
+/**
+ * Writes a JSON file atomically into an IPC subdirectory (write to .tmp, then rename).
+ * The host only picks up *.json files, so it never sees a partially written file.
+ * String values are passed through secret redaction before they hit disk.
+ * The filename defaults to a fresh ipcFileStem().
+ */
+export function writeIpcFile(dir: string, data: unknown, filename: string = `${ipcFileStem()}.json`): string {
+  fs.mkdirSync(dir, { recursive: true });
+
+  const tmpPath = path.join(dir, `.${filename}.tmp`);
+  const finalPath = path.join(dir, filename);
 
-  fs.writeFileSync(tmpPath, JSON.stringify(command, null, 2));
+  fs.writeFileSync(tmpPath, JSON.stringify(redactDeep(data), null, 2));
   fs.renameSync(tmpPath, finalPath);
 
   return finalPath;
 }
+
+/**
+ * Writes an IPC command file atomically to the tasks directory, stamped with
+ * the protocol version. Throws before writing if the command fails its schema.
+ * Filename format: ${timestamp}-${random}.json
+ */
+export function writeIpcCommand(ipcDir: string, command: IpcCommand): string {
+  const versioned = { ...command, protocol_version: IPC_PROTOCOL_VERSION };
+  const validation = validateIpcCommand(versioned);
+  if (!validation.ok) {
+    throw new Error(`Invalid IPC command ${validation.error}`);
+  }
+  return writeIpcFile(path.join(ipcDir, 'tasks'), versioned);
+}
+
+/**
+ * Polls responses/{requestId}.json until the host writes it or the timeout
+ * passes. The response file is consumed (deleted) once read.
+ * Resolves null on timeout, e.g. with an older host that never answers.
+ */
+export function waitForIpcResponse(
+  ipcDir: string,
+  requestId: string,
+  timeoutMs: number = IPC_RESPONSE_TIMEOUT_MS,
+): Promise<IpcResponse | null> {
+  const responsePath = path.join(ipcDir, 'responses', `${requestId}.json`);
+  const deadline = Date.now() + timeoutMs;
+
+  return new Promise((resolve) => {
+    const poll = (): void => {
+      try {
+        if (fs.existsSync(responsePath)) {
+          const response = JSON.parse(fs.readFileSync(responsePath, 'utf-8')) as IpcResponse;
+          fs.unlinkSync(responsePath);
+          resolve(response);
+          return;
+        }
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err);
+        try { fs.unlinkSync(responsePath); } catch {}
+        resolve({ request_id: requestId, ok: false, error: `Unreadable host response: ${errMsg}` });
+        return;
+      }
+      if (Date.now() >= deadline) {
+        resolve(null);
+        return;
+      }
+      setTimeout(poll, IPC_RESPONSE_POLL_MS);
+    };
+    poll();
+  });
+}
+
+/**
+ * Writes an IPC command with a fresh request_id and waits for the host's response.
+ * Resolves null if the host did not answer within the timeout.
+ */
+export async function sendIpcRequest(
+  ipcDir: string,
+  command: IpcRequestCommand,
+  timeoutMs: number = IPC_RESPONSE_TIMEOUT_MS,
+): Promise<IpcResponse | null> {
+  const requestId = ipcFileStem();
+  writeIpcCommand(ipcDir, { ...command, request_id: requestId });
+  return waitForIpcResponse(ipcDir, requestId, timeoutMs);
+}
@@ -0,0 +1,82 @@
+// mdclaw agent-runner: per-run budget and turn limits
+
+import type { HookCallback } from '@anthropic-ai/claude-code';
+import type { SessionUsage } from './usage.js';
+
+/**
+ * Ceilings for a single container session, sent by the host in
+ * ContainerInput.limits. Every field is optional; omitted means unlimited.
+ */
+export interface RunLimits {
+  /** User turns: the initial prompt plus each follow-up message */
+  maxTurns?: number;
+  /** Input + output + cache tokens across the session */
+  maxTokens?: number;
+  maxCostUsd?: number;
+  maxWallClockSeconds?: number;
+  maxToolCalls?: number;
+}
+
+export interface LimitBreach {
+  limit: keyof RunLimits;
+  /** User-facing explanation, emitted as a notice to the chat */
+  message: string;
+}
+
+/**
+ * Returns the first limit the session has exceeded, or null.
+ *
+ * `turns` is the number of user turns the session has started or is about to
+ * start, so callers can check before pushing another follow-up.
+ */
+export function checkLimits(limits: RunLimits | undefined, usage: SessionUsage, turns: number): LimitBreach | null {
+  if (!limits) return null;
+
+  const tokens = usage.totals.inputTokens + usage.totals.outputTokens
+    + usage.totals.cacheReadInputTokens + usage.totals.cacheCreationInputTokens;
+
+  if (limits.maxTurns !== undefined && turns > limits.maxTurns) {
+    return { limit: 'maxTurns', message: `This session reached its limit of ${limits.maxTurns} turns, so I've stopped here. Send a new message to start a fresh session.` };
+  }
+  if (limits.maxTokens !== undefined && tokens >= limits.maxTokens) {
+    return { limit: 'maxTokens', message: `This session used ${tokens} tokens, reaching its limit of ${limits.maxTokens}, so I've stopped here.` };
+  }
+  if (limits.maxCostUsd !== undefined && usage.totals.costUsd >= limits.maxCostUsd) {
+    return { limit: 'maxCostUsd', message: `This session cost $${usage.totals.costUsd.toFixed(2)}, reaching its budget of $${limits.maxCostUsd.toFixed(2)}, so I've stopped here.` };
+  }
+  if (limits.maxWallClockSeconds !== undefined && usage.wallTimeMs >= limits.maxWallClockSeconds * 1000) {
+    return { limit: 'maxWallClockSeconds', message: `This session ran for its maximum of ${limits.maxWallClockSeconds} seconds, so I've stopped here.` };
+  }
+  // maxToolCalls is not checked here: usage.toolCalls is counted when the assistant
+  // message arrives, too late to stop a call. createToolCallLimitHook enforces it.
+  return null;
+}
+
+/**
+ * PreToolUse hook enforcing maxToolCalls: the first maxToolCalls calls go ahead
+ * and every later one is denied before it starts. `onLimit` is called once, on
+ * the first denied call, so the caller can end the session after the current reply.
+ */
+export function createToolCallLimitHook(limits: RunLimits | undefined, onLimit: (breach: LimitBreach) => void): HookCallback {
+  let calls = 0;
+  let reported = false;
+  return async () => {
+    const max = limits?.maxToolCalls;
+    if (max === undefined) return {};
+    if (calls < max) {
+      calls++;
+      return {};
+    }
+    if (!reported) {
+      reported = true;
+      onLimit({ limit: 'maxToolCalls', message: `This session reached its limit of ${max} tool calls, so I've stopped here.` });
+    }
+    return {
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse' as const,
+        permissionDecision: 'deny' as const,
+        permissionDecisionReason: `This session has used all ${max} of its tool calls. Do not call any more tools; finish your reply with what you have.`,
+      },
+    };
+  };
+}
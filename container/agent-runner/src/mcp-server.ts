@@ -3,25 +3,73 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
-import fs from 'node:fs';
-import path from 'node:path';
-import { writeIpcCommand } from './ipc-writer.js';
+import { IPC_RESPONSE_TIMEOUT_MS, ipcFileStem, sendIpcRequest, type IpcRequestCommand, type IpcResponse } from './ipc-writer.js';
+import type { IpcPayload } from './ipc-commands.js';
+import type { HostSnapshot, PendingChange } from './snapshot.js';
+import type { TaskReport } from './task-result.js';
+import { stageOutboundFile } from './attachments.js';
+import type { MessageTransport, OutboundQueue } from './outbox.js';
+import type { OutputWriter } from './output.js';
+import { isToolAllowed, MCP_TOOL_PREFIX, type ToolPolicy } from './tool-policy.js';
+import { readTranscript, searchTranscripts } from './transcript.js';
+import { formatLocalTime } from './time.js';
+import { validateSchedule } from './schedule.js';
+import { forgetMemory, formatMemory, loadMemories, recallMemories, rememberMemory } from './memory.js';
 
-const OUTPUT_START_MARKER = '---NANOCLAW_OUTPUT_START---';
-const OUTPUT_END_MARKER = '---NANOCLAW_OUTPUT_END---';
+// read_conversation returns at most this many characters per call; use offset to page
+const READ_CONVERSATION_CHARS = 20_000;
 
 export interface McpServerConfig {
   groupFolder: string;
   chatJid: string;
   ipcDir: string;
+  sessionsDir: string;
   isMain: boolean;
   assistantName: string;
-  outputStream: NodeJS.WritableStream;
+  /** IANA timezone that schedule_task interprets local times in */
+  timezone: string;
+  locale: string;
+  output: OutputWriter;
+  /** Shared across the per-query MCP servers so sequence numbers run through the whole session */
+  outbox: OutboundQueue;
+  /** Where send_message delivers: message files in messages/ (default) or stdout sentinels */
+  messageTransport: MessageTransport;
+  /** Shared across the per-query MCP servers so pending commands survive between queries */
+  snapshot: HostSnapshot;
+  /** Present only for scheduled task runs; enables task_complete */
+  taskReport?: TaskReport;
+  toolPolicy?: ToolPolicy;
+}
+
+/**
+ * Turns the host's answer to an IPC request into a tool result: success text,
+ * the host's error (isError), or a warning that the host has not confirmed it.
+ */
+function acknowledged(response: IpcResponse | null, success: string, action: string) {
+  if (!response) {
+    return {
+      content: [{
+        type: 'text' as const,
+        text: `${action} was requested, but the host has not confirmed it within ${IPC_RESPONSE_TIMEOUT_MS / 1000}s. Do not tell the user it is done; check with list_tasks or list_groups first.`,
+      }],
+    };
+  }
+  if (!response.ok) {
+    return { content: [{ type: 'text' as const, text: `${action} failed: ${response.error ?? 'rejected by host'}` }], isError: true };
+  }
+  return { content: [{ type: 'text' as const, text: success }] };
+}
+
+/**
+ * One line per upcoming run, in UTC and the group's local time.
+ */
+function formatNextRuns(runs: Date[], timezone: string, locale: string): string {
+  return runs.map((run) => `- ${run.toISOString()} UTC — ${formatLocalTime(run, timezone, locale)}`).join('\n');
 }
 
 /**
  * Creates and configures the MCP server with all mdclaw tools.
- * Tools communicate with the host via sentinel-marked stdout (for messages)
+ * Tools communicate with the host via sentinel-marked output (for messages)
  * and IPC file writes (for task/group management).
  */
 export function createMcpServer(config: McpServerConfig): McpServer {
@@ -30,170 +78,464 @@ export function createMcpServer(config: McpServerConfig): McpServer {
     version: '0.1.0',
   });
 
+  // Tools the group's policy denies are never registered, so the model never sees them
+  const allows = (name: string): boolean => isToolAllowed(config.toolPolicy, `${MCP_TOOL_PREFIX}${name}`);
+
+  // Sends a command, waits for the ack and records the outcome on the snapshot overlay
+  const sendTracked = async (command: IpcRequestCommand, change: PendingChange): Promise<IpcResponse | null> => {
+    let response: IpcResponse | null;
+    try {
+      response = await sendIpcRequest(config.ipcDir, command);
+    } catch (err) {
+      // Rejected before it reached disk (schema validation); the host will never see it
+      config.snapshot.settle(change, { request_id: '', ok: false });
+      throw err;
+    }
+    config.snapshot.settle(change, response);
+    return response;
+  };
+
   // --- send_message ---
-  // Writes a sentinel-marked message to stdout for the host to capture and deliver.
-  server.tool(
-    'send_message',
-    'Send a message to the current chat immediately. Useful for acknowledgments or progress updates while still working.',
-    {
-      text: z.string().describe('The message text to send'),
-      sender: z.string().optional().describe('Optional sender identity (e.g., "Researcher"). Used by Telegram swarm for per-agent bot names.'),
-    },
-    async ({ text }) => {
-      const output = `\n${OUTPUT_START_MARKER}\n${text}\n${OUTPUT_END_MARKER}\n`;
-      config.outputStream.write(output);
-      return { content: [{ type: 'text' as const, text: `Message sent: "${text.slice(0, 100)}${text.length > 100 ? '...' : ''}"` }] };
-    },
-  );
+  // Queues a message file in ipc/messages/, or in stdout mode writes a
+  // sentinel-marked progress block for the host to capture and deliver.
+  if (allows('send_message')) {
+    server.tool(
+      'send_message',
+      'Send a message to the current chat immediately. Useful for acknowledgments or progress updates while still working.',
+      {
+        text: z.string().describe('The message text to send'),
+        sender: z.string().optional().describe('Optional sender identity (e.g., "Researcher"). Used by Telegram swarm for per-agent bot names.'),
+      },
+      async ({ text, sender }) => {
+        if (config.messageTransport === 'stdout') {
+          config.output.write('progress', text, { sender });
+        } else {
+          config.outbox.sendText(text, sender);
+        }
+        return { content: [{ type: 'text' as const, text: `Message sent: "${text.slice(0, 100)}${text.length > 100 ? '...' : ''}"` }] };
+      },
+    );
+  }
+
+  // --- send_file ---
+  // Stages a file into ipc/messages/ for the host to upload to the chat.
+  if (allows('send_file')) {
+    server.tool(
+      'send_file',
+      'Send a file (image, PDF, audio, etc.) from /data or /tmp to the current chat, e.g. a screenshot or a generated chart.',
+      {
+        path: z.string().describe('Absolute path of the file inside /data or /tmp'),
+        caption: z.string().optional().describe('Optional caption shown with the file'),
+        sender: z.string().optional().describe('Optional sender identity, as for send_message'),
+      },
+      async ({ path: filePath, caption, sender }) => {
+        try {
+          const message = stageOutboundFile(config.outbox, filePath, { caption, sender });
+          return { content: [{ type: 'text' as const, text: `File sent: ${message.filename} (${message.mime_type}, ${message.size} bytes)` }] };
+        } catch (err) {
+          const errMsg = err instanceof Error ? err.message : String(err);
+          return { content: [{ type: 'text' as const, text: `Could not send file: ${errMsg}` }], isError: true };
+        }
+      },
+    );
+  }
+
+  // --- task_complete (scheduled task runs only) ---
+  // Lets the agent end a scheduled run quietly ("nothing new today") or flag it as failed.
+  // The verdict goes into the task_result IPC command written when the run ends.
+  if (config.taskReport && allows('task_complete')) {
+    const taskReport = config.taskReport;
+    server.tool(
+      'task_complete',
+      'Report the outcome of this scheduled task. Use status "skipped" when there is nothing worth telling the chat (no message is sent), "failure" when the task could not be done, or set notify=false to suppress the final message.',
+      {
+        status: z.enum(['success', 'skipped', 'failure']).describe('Outcome of the task'),
+        summary: z.string().describe('One or two sentences on what was done or found, for the task log'),
+        notify: z.boolean().optional().default(true).describe('Send the final response to the chat (ignored when skipped)'),
+        error: z.string().optional().describe('What went wrong, when status is "failure"'),
+      },
+      async ({ status, summary, notify, error }) => {
+        taskReport.complete(status, summary, { notify, error });
+        const delivery = taskReport.silenced ? 'The final response will not be sent to the chat.' : 'The final response will be sent to the chat.';
+        return { content: [{ type: 'text' as const, text: `Task outcome recorded: ${status}. ${delivery}` }] };
+      },
+    );
+  }
 
   // --- schedule_task ---
-  server.tool(
-    'schedule_task',
-    'Schedule a recurring or one-time task. Types: "cron" (cron expression), "interval" (milliseconds), "once" (ISO timestamp).',
-    {
-      prompt: z.string().describe('The prompt to execute when the task runs'),
-      schedule_type: z.enum(['cron', 'interval', 'once']).describe('Type of schedule'),
-      schedule_value: z.string().describe('Cron expression, interval in ms, or ISO timestamp'),
-      context_mode: z.enum(['group', 'isolated']).optional().default('group').describe('Whether to include group context'),
-    },
-    async ({ prompt, schedule_type, schedule_value, context_mode }) => {
-      writeIpcCommand(config.ipcDir, {
-        type: 'schedule_task',
-        payload: {
+  // Times are interpreted in the group's timezone. Values are validated here (see
+  // schedule.ts); "once" is resolved to a UTC instant, cron is sent with the timezone.
+  if (allows('schedule_task')) {
+    server.tool(
+      'schedule_task',
+      `Schedule a recurring or one-time task. Types: "cron" (cron expression, evaluated in ${config.timezone}), "interval" (milliseconds), "once" (a time such as "9am", "tomorrow 9:30pm", or an ISO timestamp; without a UTC offset it is local time in ${config.timezone}).`,
+      {
+        prompt: z.string().describe('The prompt to execute when the task runs'),
+        schedule_type: z.enum(['cron', 'interval', 'once']).describe('Type of schedule'),
+        schedule_value: z.string().describe('Cron expression (5 fields), interval in ms (minimum 60000), or a future local time / ISO timestamp'),
+        context_mode: z.enum(['group', 'isolated']).optional().default('group').describe('Whether to include group context'),
+      },
+      async ({ prompt, schedule_type, schedule_value, context_mode }) => {
+        const schedule = validateSchedule(schedule_type, schedule_value, config.timezone);
+        if (!schedule.ok) {
+          return { content: [{ type: 'text' as const, text: schedule.error }], isError: true };
+        }
+
+        const payload = {
           prompt,
           schedule_type,
-          schedule_value,
+          schedule_value: schedule.value,
+          timezone: config.timezone,
           context_mode,
           chat_jid: config.chatJid,
-        },
-        source_group: config.groupFolder,
-      });
-      return { content: [{ type: 'text' as const, text: `Task scheduled: ${schedule_type} "${prompt.slice(0, 80)}"` }] };
-    },
-  );
+        };
+        const response = await sendTracked(
+          { type: 'schedule_task', payload, source_group: config.groupFolder },
+          // Placeholder id until the host acknowledges with the real one
+          config.snapshot.track('tasks', `pending-${ipcFileStem()}`, { ...payload, status: 'active' }, 'create'),
+        );
+
+        const runs = formatNextRuns(schedule.nextRuns, config.timezone, config.locale);
+        const taskId = response?.result?.task_id;
+        return acknowledged(
+          response,
+          `Task scheduled: ${schedule_type} "${prompt.slice(0, 80)}"${taskId ? ` — id: ${taskId}` : ''}\n${schedule.nextRuns.length > 1 ? 'Next runs' : 'Runs at'}:\n${runs}`,
+          'Scheduling the task',
+        );
+      },
+    );
+  }
 
   // --- list_tasks ---
-  server.tool(
-    'list_tasks',
-    'List all scheduled tasks for the current group.',
-    {},
-    async () => {
-      const tasksFile = path.join(config.ipcDir, 'current_tasks.json');
-      let tasks: Array<Record<string, unknown>> = [];
-      try {
-        if (fs.existsSync(tasksFile)) {
-          tasks = JSON.parse(fs.readFileSync(tasksFile, 'utf-8')) as Array<Record<string, unknown>>;
+  if (allows('list_tasks')) {
+    server.tool(
+      'list_tasks',
+      'List scheduled tasks for the current group, optionally only those with a given status.',
+      {
+        status: z.string().optional().describe('Only list tasks with this status (e.g. "active", "paused", "completed")'),
+      },
+      async ({ status }) => {
+        const tasks = config.snapshot.tasks().filter((t) => !status || t.status === status);
+        if (tasks.length === 0) {
+          return { content: [{ type: 'text' as const, text: status ? `No ${status} tasks.` : 'No scheduled tasks.' }] };
         }
-      } catch {
-        // File may not exist yet
-      }
 
-      if (tasks.length === 0) {
-        return { content: [{ type: 'text' as const, text: 'No scheduled tasks.' }] };
-      }
+        const summary = tasks.map((t, i) =>
+          `${i + 1}. [${t.status}] ${t.prompt} (${t.schedule_type}: ${t.schedule_value}) — id: ${t.id}${t.unconfirmed ? ' (not yet confirmed by host)' : ''}`
+        ).join('\n');
+
+        return { content: [{ type: 'text' as const, text: summary }] };
+      },
+    );
+  }
 
-      const summary = tasks.map((t, i) =>
-        `${i + 1}. [${t.status}] ${t.prompt} (${t.schedule_type}: ${t.schedule_value}) — id: ${t.id}`
-      ).join('\n');
+  // --- get_task ---
+  // Shows every field the host put in the snapshot (next_run, last_run, last_result, ...).
+  if (allows('get_task')) {
+    server.tool(
+      'get_task',
+      'Show full details of a scheduled task, including its last and next run and last result or error.',
+      {
+        task_id: z.string().describe('The ID of the task'),
+      },
+      async ({ task_id }) => {
+        const task = config.snapshot.tasks().find((t) => t.id === task_id);
+        if (!task) {
+          return { content: [{ type: 'text' as const, text: `No task with id "${task_id}".` }], isError: true };
+        }
 
-      return { content: [{ type: 'text' as const, text: summary }] };
-    },
-  );
+        const details = Object.entries(task)
+          .filter(([, value]) => value !== null && value !== undefined && value !== '')
+          .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+          .join('\n');
+        return { content: [{ type: 'text' as const, text: details }] };
+      },
+    );
+  }
 
   // --- pause_task ---
-  server.tool(
-    'pause_task',
-    'Pause an active scheduled task.',
-    {
-      task_id: z.string().describe('The ID of the task to pause'),
-    },
-    async ({ task_id }) => {
-      writeIpcCommand(config.ipcDir, {
-        type: 'pause_task',
-        payload: { task_id },
-        source_group: config.groupFolder,
-      });
-      return { content: [{ type: 'text' as const, text: `Task ${task_id} pause requested.` }] };
-    },
-  );
+  if (allows('pause_task')) {
+    server.tool(
+      'pause_task',
+      'Pause an active scheduled task.',
+      {
+        task_id: z.string().describe('The ID of the task to pause'),
+      },
+      async ({ task_id }) => {
+        const response = await sendTracked(
+          { type: 'pause_task', payload: { task_id }, source_group: config.groupFolder },
+          config.snapshot.track('tasks', task_id, { status: 'paused' }),
+        );
+        return acknowledged(response, `Task ${task_id} paused.`, `Pausing task ${task_id}`);
+      },
+    );
+  }
 
   // --- resume_task ---
-  server.tool(
-    'resume_task',
-    'Resume a paused scheduled task.',
-    {
-      task_id: z.string().describe('The ID of the task to resume'),
-    },
-    async ({ task_id }) => {
-      writeIpcCommand(config.ipcDir, {
-        type: 'resume_task',
-        payload: { task_id },
-        source_group: config.groupFolder,
-      });
-      return { content: [{ type: 'text' as const, text: `Task ${task_id} resume requested.` }] };
-    },
-  );
+  if (allows('resume_task')) {
+    server.tool(
+      'resume_task',
+      'Resume a paused scheduled task.',
+      {
+        task_id: z.string().describe('The ID of the task to resume'),
+      },
+      async ({ task_id }) => {
+        const response = await sendTracked(
+          { type: 'resume_task', payload: { task_id }, source_group: config.groupFolder },
+          config.snapshot.track('tasks', task_id, { status: 'active' }),
+        );
+        return acknowledged(response, `Task ${task_id} resumed.`, `Resuming task ${task_id}`);
+      },
+    );
+  }
 
   // --- cancel_task ---
-  server.tool(
-    'cancel_task',
-    'Cancel a scheduled task permanently.',
-    {
-      task_id: z.string().describe('The ID of the task to cancel'),
-    },
-    async ({ task_id }) => {
-      writeIpcCommand(config.ipcDir, {
-        type: 'cancel_task',
-        payload: { task_id },
-        source_group: config.groupFolder,
-      });
-      return { content: [{ type: 'text' as const, text: `Task ${task_id} cancel requested.` }] };
-    },
-  );
+  if (allows('cancel_task')) {
+    server.tool(
+      'cancel_task',
+      'Cancel a scheduled task permanently.',
+      {
+        task_id: z.string().describe('The ID of the task to cancel'),
+      },
+      async ({ task_id }) => {
+        const response = await sendTracked(
+          { type: 'cancel_task', payload: { task_id }, source_group: config.groupFolder },
+          config.snapshot.track('tasks', task_id, { status: 'cancelled' }),
+        );
+        return acknowledged(response, `Task ${task_id} cancelled.`, `Cancelling task ${task_id}`);
+      },
+    );
+  }
+
+  // --- update_task ---
+  // Changes a task in place; omitted fields keep their current value.
+  if (allows('update_task')) {
+    server.tool(
+      'update_task',
+      `Change a scheduled task's prompt, schedule or context mode in place. Omitted fields are left unchanged. Schedules are validated like schedule_task and interpreted in ${config.timezone}.`,
+      {
+        task_id: z.string().describe('The ID of the task to update'),
+        prompt: z.string().optional().describe('New prompt'),
+        schedule_type: z.enum(['cron', 'interval', 'once']).optional().describe('New schedule type (requires schedule_value)'),
+        schedule_value: z.string().optional().describe('New cron expression, interval in ms, or future local time / ISO timestamp'),
+        context_mode: z.enum(['group', 'isolated']).optional().describe('New context mode'),
+      },
+      async ({ task_id, prompt, schedule_type, schedule_value, context_mode }) => {
+        if (prompt === undefined && schedule_type === undefined && schedule_value === undefined && context_mode === undefined) {
+          return { content: [{ type: 'text' as const, text: 'Nothing to update: pass at least one of prompt, schedule_type, schedule_value, context_mode.' }], isError: true };
+        }
+        if (schedule_type !== undefined && schedule_value === undefined) {
+          return { content: [{ type: 'text' as const, text: 'Changing schedule_type requires a schedule_value.' }], isError: true };
+        }
+
+        const payload: IpcPayload<'update_task'> = { task_id };
+        if (prompt !== undefined) payload.prompt = prompt;
+        if (context_mode !== undefined) payload.context_mode = context_mode;
+
+        let runs = '';
+        if (schedule_value !== undefined) {
+          // A new value alone keeps the task's current schedule type
+          const current = config.snapshot.tasks().find((t) => t.id === task_id);
+          const type = schedule_type ?? (current?.schedule_type as 'cron' | 'interval' | 'once' | undefined);
+          if (!type) {
+            return { content: [{ type: 'text' as const, text: `Task ${task_id} is not in the task list; pass schedule_type along with schedule_value.` }], isError: true };
+          }
+          const schedule = validateSchedule(type, schedule_value, config.timezone);
+          if (!schedule.ok) {
+            return { content: [{ type: 'text' as const, text: schedule.error }], isError: true };
+          }
+          Object.assign(payload, { schedule_type: type, schedule_value: schedule.value, timezone: config.timezone });
+          runs = `\n${schedule.nextRuns.length > 1 ? 'Next runs' : 'Runs at'}:\n${formatNextRuns(schedule.nextRuns, config.timezone, config.locale)}`;
+        }
+
+        const { task_id: _id, ...fields } = payload;
+        const response = await sendTracked(
+          { type: 'update_task', payload, source_group: config.groupFolder },
+          config.snapshot.track('tasks', task_id, fields),
+        );
+        return acknowledged(response, `Task ${task_id} updated.${runs}`, `Updating task ${task_id}`);
+      },
+    );
+  }
+
+  // --- run_task_now ---
+  if (allows('run_task_now')) {
+    server.tool(
+      'run_task_now',
+      'Run a scheduled task immediately, once, without changing its schedule.',
+      {
+        task_id: z.string().describe('The ID of the task to run'),
+      },
+      async ({ task_id }) => {
+        const response = await sendIpcRequest(config.ipcDir, {
+          type: 'run_task_now',
+          payload: { task_id },
+          source_group: config.groupFolder,
+        });
+        return acknowledged(response, `Task ${task_id} queued to run now.`, `Running task ${task_id}`);
+      },
+    );
+  }
+
+  // --- search_history ---
+  // Searches this group's archived conversations (/data/sessions/{group}/conversations).
+  if (allows('search_history')) {
+    server.tool(
+      'search_history',
+      'Search past conversations in this group by keyword. Returns matching archived conversations with dates and snippets; open one with read_conversation.',
+      {
+        query: z.string().describe('Keywords to search for'),
+        limit: z.number().int().min(1).max(20).optional().default(5).describe('Maximum number of conversations to return'),
+        ranked: z.boolean().optional().default(true).describe('Rank by relevance (BM25) instead of listing newest matches first'),
+      },
+      async ({ query, limit, ranked }) => {
+        const hits = searchTranscripts(config.sessionsDir, config.groupFolder, query, { limit, ranked });
+        if (hits.length === 0) {
+          return { content: [{ type: 'text' as const, text: `No past conversations match "${query}".` }] };
+        }
+
+        const summary = hits.map((h, i) =>
+          `${i + 1}. ${h.date} — file: ${h.file}\n${h.snippets.map((s) => `   > ${s}`).join('\n')}`
+        ).join('\n\n');
+
+        return { content: [{ type: 'text' as const, text: summary }] };
+      },
+    );
+  }
+
+  // --- read_conversation ---
+  if (allows('read_conversation')) {
+    server.tool(
+      'read_conversation',
+      'Read an archived conversation found with search_history.',
+      {
+        file: z.string().describe('Conversation filename from search_history (e.g. 2025-01-07T14-03-22-511Z.md)'),
+        offset: z.number().int().min(0).optional().default(0).describe('Character offset to start reading from, for long conversations'),
+      },
+      async ({ file, offset }) => {
+        let text: string;
+        try {
+          text = readTranscript(config.sessionsDir, config.groupFolder, file);
+        } catch (err) {
+          const errMsg = err instanceof Error ? err.message : String(err);
+          return { content: [{ type: 'text' as const, text: errMsg }], isError: true };
+        }
+
+        const end = offset + READ_CONVERSATION_CHARS;
+        const more = end < text.length ? `\n\n[Truncated — ${text.length - end} more characters; call again with offset ${end}]` : '';
+        return { content: [{ type: 'text' as const, text: text.slice(offset, end) + more }] };
+      },
+    );
+  }
+
+  // --- remember ---
+  // Long-term memory lives in /data/memory.json; pinned and relevant memories are
+  // injected into the system prompt of later sessions.
+  if (allows('remember')) {
+    server.tool(
+      'remember',
+      'Save a durable fact about this group for future conversations (e.g. "Alice is vegetarian", "deploy window is Thursday"). Remembering the same fact again updates it.',
+      {
+        text: z.string().min(1).describe('The fact to remember, as a self-contained sentence'),
+        tags: z.array(z.string()).optional().describe('Optional tags to help recall (e.g. ["alice", "food"])'),
+        pinned: z.boolean().optional().describe('Always include this memory in the system prompt'),
+      },
+      async ({ text, tags, pinned }) => {
+        const { memory, updated } = rememberMemory(text, { tags, pinned });
+        return { content: [{ type: 'text' as const, text: `${updated ? 'Updated' : 'Remembered'}: ${formatMemory(memory)}` }] };
+      },
+    );
+  }
+
+  // --- recall ---
+  if (allows('recall')) {
+    server.tool(
+      'recall',
+      'Search saved memories for this group by keyword, most relevant first.',
+      {
+        query: z.string().describe('Keywords to search for'),
+        limit: z.number().int().min(1).max(50).optional().default(10).describe('Maximum number of memories to return'),
+      },
+      async ({ query, limit }) => {
+        const memories = recallMemories(query, limit);
+        if (memories.length === 0) {
+          return { content: [{ type: 'text' as const, text: `No memories match "${query}".` }] };
+        }
+        return { content: [{ type: 'text' as const, text: memories.map(formatMemory).join('\n') }] };
+      },
+    );
+  }
+
+  // --- list_memories ---
+  if (allows('list_memories')) {
+    server.tool(
+      'list_memories',
+      'List all saved memories for this group, pinned first.',
+      {},
+      async () => {
+        const memories = loadMemories().sort((a, b) => Number(b.pinned) - Number(a.pinned));
+        if (memories.length === 0) {
+          return { content: [{ type: 'text' as const, text: 'No memories saved.' }] };
+        }
+        return { content: [{ type: 'text' as const, text: memories.map(formatMemory).join('\n') }] };
+      },
+    );
+  }
+
+  // --- forget ---
+  if (allows('forget')) {
+    server.tool(
+      'forget',
+      'Delete a saved memory by its id (from recall or list_memories).',
+      {
+        memory_id: z.string().describe('The memory ID to delete'),
+      },
+      async ({ memory_id }) => {
+        const removed = forgetMemory(memory_id);
+        if (!removed) {
+          return { content: [{ type: 'text' as const, text: `No memory with id "${memory_id}".` }], isError: true };
+        }
+        return { content: [{ type: 'text' as const, text: `Forgot: ${removed.text}` }] };
+      },
+    );
+  }
 
   // --- register_group (main group only) ---
-  if (config.isMain) {
+  if (config.isMain && allows('register_group')) {
     server.tool(
       'register_group',
       'Register a new group for the assistant to monitor. Main group only.',
       {
         name: z.string().describe('Display name for the group'),
-        folder: z.string().describe('Folder name for group data (alphanumeric, hyphens, underscores)'),
+        folder: z.string().describe('Folder name for group data (up to 64 letters, digits, hyphens and underscores, starting with a letter or digit; not "global")'),
         trigger: z.string().optional().default(`@${config.assistantName}`).describe('Trigger pattern'),
         chat_jid: z.string().describe('Chat JID to associate with this group'),
       },
       async ({ name, folder, trigger, chat_jid }) => {
-        writeIpcCommand(config.ipcDir, {
-          type: 'register_group',
-          payload: { name, folder, trigger, chat_jid },
-          source_group: config.groupFolder,
-        });
-        return { content: [{ type: 'text' as const, text: `Group "${name}" (${folder}) registration requested.` }] };
+        const payload = { name, folder, trigger, chat_jid };
+        const response = await sendTracked(
+          { type: 'register_group', payload, source_group: config.groupFolder },
+          config.snapshot.track('groups', folder, payload, 'create'),
+        );
+        return acknowledged(response, `Group "${name}" (${folder}) registered.`, `Registering group "${name}"`);
       },
     );
+  }
 
-    // --- list_groups (main group only, read from available_groups.json) ---
+  // --- list_groups (main group only, from available_groups.json plus pending registrations) ---
+  if (config.isMain && allows('list_groups')) {
     server.tool(
       'list_groups',
       'List all registered groups. Main group only.',
       {},
       async () => {
-        const groupsFile = path.join(config.ipcDir, 'available_groups.json');
-        let groups: Array<Record<string, unknown>> = [];
-        try {
-          if (fs.existsSync(groupsFile)) {
-            groups = JSON.parse(fs.readFileSync(groupsFile, 'utf-8')) as Array<Record<string, unknown>>;
-          }
-        } catch {
-          // File may not exist yet
-        }
-
+        const groups = config.snapshot.groups();
         if (groups.length === 0) {
           return { content: [{ type: 'text' as const, text: 'No registered groups.' }] };
         }
 
         const summary = groups.map((g, i) =>
-          `${i + 1}. ${g.name} (${g.folder}) — trigger: ${g.trigger}`
+          `${i + 1}. ${g.name} (${g.folder}) — trigger: ${g.trigger}${g.unconfirmed ? ' (not yet confirmed by host)' : ''}`
         ).join('\n');
 
         return { content: [{ type: 'text' as const, text: summary }] };
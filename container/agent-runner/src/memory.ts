@@ -0,0 +1,185 @@
+// mdclaw agent-runner: long-term memory store in /data/memory.json
+// Durable per-group facts the agent saves with `remember` and gets back in its system prompt.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { redact } from './redact.js';
+import { bm25Scores, tokenize } from './search.js';
+
+export const MEMORY_PATH = '/data/memory.json';
+
+// Upper bound on the memory section of the system prompt; pinned memories go first
+const PROMPT_MEMORY_CHARS = 2_000;
+const PROMPT_RELEVANT_MEMORIES = 5;
+
+export interface Memory {
+  id: string;
+  text: string;
+  tags: string[];
+  /** Pinned memories are always injected into the system prompt */
+  pinned: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Normalizes one stored entry, or returns null if it lacks an id or text.
+ * Hand-edited files may be missing the other fields.
+ */
+function normalizeMemory(value: unknown): Memory | null {
+  if (!value || typeof value !== 'object') return null;
+  const m = value as Record<string, unknown>;
+  if (typeof m.id !== 'string' || typeof m.text !== 'string') return null;
+  const createdAt = typeof m.created_at === 'string' ? m.created_at : '';
+  return {
+    id: m.id,
+    text: m.text,
+    tags: Array.isArray(m.tags) ? m.tags.filter((t): t is string => typeof t === 'string') : [],
+    pinned: m.pinned === true,
+    created_at: createdAt,
+    updated_at: typeof m.updated_at === 'string' ? m.updated_at : createdAt,
+  };
+}
+
+/**
+ * Reads the store, or returns null if the file exists but is not a JSON array.
+ */
+function readMemoryFile(filePath: string): Memory[] | null {
+  if (!fs.existsSync(filePath)) return [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (Array.isArray(parsed)) {
+      return parsed.map(normalizeMemory).filter((m): m is Memory => m !== null);
+    }
+  } catch {
+    // Reported as unreadable below
+  }
+  return null;
+}
+
+/**
+ * Reads all memories. A missing or malformed file yields an empty list;
+ * entries that cannot be normalized are dropped.
+ */
+export function loadMemories(filePath: string = MEMORY_PATH): Memory[] {
+  const memories = readMemoryFile(filePath);
+  if (!memories) process.stderr.write(`Memory store ${filePath} is not a valid JSON array; ignoring it\n`);
+  return memories ?? [];
+}
+
+/**
+ * Reads all memories before a write. A malformed file is moved aside to
+ * `{file}.corrupt-{timestamp}` first, so the write cannot destroy what it held.
+ */
+function loadMemoriesForUpdate(filePath: string): Memory[] {
+  const memories = readMemoryFile(filePath);
+  if (memories) return memories;
+  const asidePath = `${filePath}.corrupt-${Date.now()}`;
+  fs.renameSync(filePath, asidePath);
+  process.stderr.write(`Memory store ${filePath} is not a valid JSON array; moved it to ${asidePath}\n`);
+  return [];
+}
+
+function saveMemories(memories: Memory[], filePath: string): void {
+  const tmpPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.tmp`);
+  fs.writeFileSync(tmpPath, JSON.stringify(memories, null, 2));
+  fs.renameSync(tmpPath, filePath);
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Saves a memory. Remembering the same text again updates the existing
+ * memory (tags are merged, pinned is overwritten) instead of duplicating it.
+ * Secrets are redacted before the text reaches disk.
+ */
+export function rememberMemory(
+  text: string,
+  options: { tags?: string[]; pinned?: boolean } = {},
+  filePath: string = MEMORY_PATH,
+): { memory: Memory; updated: boolean } {
+  const memories = loadMemoriesForUpdate(filePath);
+  const safeText = redact(text.trim());
+  const tags = (options.tags ?? []).map((t) => t.trim().toLowerCase()).filter(Boolean);
+  const now = new Date().toISOString();
+
+  const existing = memories.find((m) => normalize(m.text) === normalize(safeText));
+  if (existing) {
+    existing.tags = [...new Set([...existing.tags, ...tags])];
+    if (options.pinned !== undefined) existing.pinned = options.pinned;
+    existing.updated_at = now;
+    saveMemories(memories, filePath);
+    return { memory: existing, updated: true };
+  }
+
+  const memory: Memory = {
+    id: `m-${crypto.randomBytes(3).toString('hex')}`,
+    text: safeText,
+    tags,
+    pinned: options.pinned ?? false,
+    created_at: now,
+    updated_at: now,
+  };
+  memories.push(memory);
+  saveMemories(memories, filePath);
+  return { memory, updated: false };
+}
+
+/**
+ * Deletes a memory by id. Returns the removed memory, or null if none matched.
+ */
+export function forgetMemory(id: string, filePath: string = MEMORY_PATH): Memory | null {
+  const memories = loadMemories(filePath);
+  const index = memories.findIndex((m) => m.id === id);
+  if (index === -1) return null;
+  const [removed] = memories.splice(index, 1);
+  saveMemories(memories, filePath);
+  return removed;
+}
+
+/**
+ * Ranks memories against a query with BM25 over text and tags.
+ * Only memories matching at least one query term are returned, best first.
+ */
+export function recallMemories(query: string, limit = 10, filePath: string = MEMORY_PATH): Memory[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  const memories = loadMemories(filePath);
+  const scores = bm25Scores(terms, memories.map((m) => `${m.text} ${m.tags.join(' ')}`));
+  return memories
+    .map((memory, i) => ({ memory, score: scores[i] }))
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((r) => r.memory);
+}
+
+/**
+ * One line per memory: `- [id] text (tags) [pinned]`
+ */
+export function formatMemory(memory: Memory): string {
+  const tags = memory.tags.length > 0 ? ` (${memory.tags.join(', ')})` : '';
+  return `- [${memory.id}] ${memory.text}${tags}${memory.pinned ? ' [pinned]' : ''}`;
+}
+
+/**
+ * Picks the memories for the system prompt: every pinned memory, then the
+ * ones most relevant to the prompt, within PROMPT_MEMORY_CHARS.
+ */
+export function selectPromptMemories(prompt: string, filePath: string = MEMORY_PATH): Memory[] {
+  const pinned = loadMemories(filePath).filter((m) => m.pinned);
+  const relevant = recallMemories(prompt, PROMPT_RELEVANT_MEMORIES, filePath).filter((m) => !m.pinned);
+
+  const selected: Memory[] = [];
+  let used = 0;
+  for (const memory of [...pinned, ...relevant]) {
+    used += formatMemory(memory).length + 1;
+    if (used > PROMPT_MEMORY_CHARS) break;
+    selected.push(memory);
+  }
+  return selected;
+}
@@ -3,26 +3,30 @@
 // Follow-up IPC messages are pushed into the stream during the query.
 
 import type { SDKUserMessage } from '@anthropic-ai/claude-code';
+import type { UserContent } from './attachments.js';
 
 /**
  * Push-based async iterable that yields SDKUserMessage objects.
  * Used as `prompt: stream` in query() to enable multi-turn within a single call.
  *
  * Flow:
- *   1. push(text) the initial prompt
+ *   1. push(content) the initial prompt
  *   2. Pass this as `prompt` to query()
- *   3. A background poller pushes IPC follow-up messages via push()
+ *   3. The IPC input watcher pushes follow-up messages via push()
  *   4. end() terminates the iterable when _close sentinel arrives
+ *
+ * Content is either a plain string or an array of content blocks
+ * (text plus images/documents from attachments).
  */
 export class MessageStream {
   private queue: SDKUserMessage[] = [];
   private waiting: (() => void) | null = null;
   private done = false;
 
-  push(text: string): void {
+  push(content: UserContent): void {
     this.queue.push({
       type: 'user',
-      message: { role: 'user', content: text },
+      message: { role: 'user', content },
       parent_tool_use_id: null,
       session_id: '',
     } as SDKUserMessage);
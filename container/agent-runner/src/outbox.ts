@@ -0,0 +1,70 @@
+// mdclaw agent-runner: ordered outbound messages to ipc/{group}/messages/
+// send_message and send_file deliver through here instead of stdout, which the
+// SDK loop and error path also write to. Each message is its own atomic file.
+
+import path from 'node:path';
+import { ipcFileStem, writeIpcFile } from './ipc-writer.js';
+
+/**
+ * - ipc:    send_message writes message files to ipc/{group}/messages/ (default)
+ * - stdout: send_message writes progress sentinels to stdout, for hosts that
+ *           predate the messages/ channel. Set via ContainerInput.messageTransport.
+ */
+export type MessageTransport = 'ipc' | 'stdout';
+
+/**
+ * Text message file written by send_message.
+ */
+export interface OutboundTextMessage {
+  type: 'message';
+  chat_jid: string;
+  text: string;
+  sender?: string;
+  source_group: string;
+  /** Position in this run's outbound stream, starting at 1 */
+  seq: number;
+  timestamp: string;
+}
+
+/**
+ * Assigns each outbound message the next sequence number and writes it to
+ * messages/ as `{runStem}-{seq}.json`, so the files sort in send order and a
+ * later run's files sort after an earlier run's.
+ *
+ * Numbering and writing happen in one synchronous step, so tool calls that run
+ * concurrently cannot interleave or reorder their messages. One queue is shared
+ * by every MCP server in the run.
+ */
+export class OutboundQueue {
+  private seq = 0;
+  private readonly runStem = ipcFileStem();
+
+  constructor(
+    readonly ipcDir: string,
+    readonly chatJid: string,
+    readonly sourceGroup: string,
+  ) {}
+
+  get dir(): string {
+    return path.join(this.ipcDir, 'messages');
+  }
+
+  /** Queues a text message for the current chat. */
+  sendText(text: string, sender?: string): OutboundTextMessage {
+    return this.enqueue({
+      type: 'message',
+      chat_jid: this.chatJid,
+      text,
+      ...(sender ? { sender } : {}),
+      source_group: this.sourceGroup,
+    });
+  }
+
+  /** Stamps the next sequence number (and a timestamp) on a message and writes it. */
+  enqueue<M extends { type: string }>(message: M): M & { seq: number; timestamp: string } {
+    const seq = ++this.seq;
+    const stamped = { ...message, seq, timestamp: new Date().toISOString() };
+    writeIpcFile(this.dir, stamped, `${this.runStem}-${String(seq).padStart(6, '0')}.json`);
+    return stamped;
+  }
+}
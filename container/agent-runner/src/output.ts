@@ -0,0 +1,83 @@
+// mdclaw agent-runner: sentinel-framed output to the host
+// Every block the host delivers to a chat passes through OutputWriter, so the
+// framing (plain text or JSON envelope) and secret redaction happen in exactly one place.
+
+import { redact } from './redact.js';
+
+export const OUTPUT_START_MARKER = '---NANOCLAW_OUTPUT_START---';
+export const OUTPUT_END_MARKER = '---NANOCLAW_OUTPUT_END---';
+
+/** Bumped whenever a field of OutputEnvelope changes meaning or is removed. */
+export const OUTPUT_ENVELOPE_VERSION = 1;
+
+/**
+ * 'text' is the original protocol: raw text between the sentinels.
+ * 'json' wraps each block in an OutputEnvelope. Hosts opt in via
+ * ContainerInput.outputFormat; older hosts never send it and keep 'text'.
+ */
+export type OutputFormat = 'text' | 'json';
+
+/**
+ * - result:   final answer for a turn
+ * - progress: intermediate message sent via send_message while still working
+ * - error:    the agent-runner failed and is reporting it to the chat
+ * - notice:   the agent-runner itself is informing the chat (e.g. a limit was reached)
+ */
+export type OutputKind = 'result' | 'progress' | 'error' | 'notice';
+
+export interface OutputUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheCreationInputTokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+export interface OutputEnvelope {
+  version: number;
+  kind: OutputKind;
+  text: string;
+  sender?: string;
+  sessionId?: string;
+  turn?: number;
+  timestamp: string;
+  usage?: OutputUsage;
+}
+
+/**
+ * Writes sentinel-marked blocks to a stream in the negotiated format.
+ * sessionId and turn are updated by the query loop as the session progresses
+ * and stamped onto every JSON envelope.
+ */
+export class OutputWriter {
+  sessionId: string | undefined;
+  turn = 0;
+
+  constructor(
+    private readonly stream: NodeJS.WritableStream,
+    readonly format: OutputFormat = 'text',
+  ) {}
+
+  write(kind: OutputKind, text: string, extra: { sender?: string; usage?: OutputUsage } = {}): void {
+    const safeText = redact(text);
+    const safeExtra = { ...extra, sender: extra.sender && redact(extra.sender) };
+    const body = this.format === 'json'
+      ? JSON.stringify(this.envelope(kind, safeText, safeExtra))
+      : safeText;
+    this.stream.write(`\n${OUTPUT_START_MARKER}\n${body}\n${OUTPUT_END_MARKER}\n`);
+  }
+
+  private envelope(kind: OutputKind, text: string, extra: { sender?: string; usage?: OutputUsage }): OutputEnvelope {
+    return {
+      version: OUTPUT_ENVELOPE_VERSION,
+      kind,
+      text,
+      ...(extra.sender ? { sender: extra.sender } : {}),
+      ...(this.sessionId ? { sessionId: this.sessionId } : {}),
+      ...(this.turn > 0 ? { turn: this.turn } : {}),
+      timestamp: new Date().toISOString(),
+      ...(extra.usage ? { usage: extra.usage } : {}),
+    };
+  }
+}
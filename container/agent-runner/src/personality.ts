@@ -0,0 +1,96 @@
+// mdclaw agent-runner: layered personality files for the system prompt
+// Global defaults (data/global, mounted at /global) are overridden file by file
+// by the group's own copies in /data, then templated and fitted to a size budget.
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+export const GLOBAL_PERSONALITY_DIR = '/global';
+export const GROUP_PERSONALITY_DIR = '/data';
+
+// Merge order, highest priority first: when the budget runs out, later files are cut
+export const PERSONALITY_FILES = ['IDENTITY.md', 'SOUL.md', 'RULES.md', 'STYLE.md', 'CONTEXT.md'];
+
+// Total characters of personality text allowed into the system prompt
+const PERSONALITY_BUDGET_CHARS = 16_000;
+const TRUNCATION_NOTE = '[…truncated to fit the personality size budget]';
+
+/**
+ * Values for `{{name}}` placeholders. Unknown placeholders are left as written.
+ */
+export interface PersonalityVariables {
+  assistantName: string;
+  groupFolder: string;
+  date: string;
+  timezone: string;
+}
+
+export interface PersonalityOptions {
+  globalDir?: string;
+  groupDir?: string;
+  budgetChars?: number;
+}
+
+function readOptionalFile(filePath: string): string {
+  try {
+    if (fs.existsSync(filePath)) {
+      return fs.readFileSync(filePath, 'utf-8').trim();
+    }
+  } catch {
+    // Non-fatal — personality files are optional
+  }
+  return '';
+}
+
+/**
+ * Replaces `{{assistantName}}`, `{{groupFolder}}`, `{{date}}` and `{{timezone}}`.
+ */
+export function renderTemplate(text: string, variables: PersonalityVariables): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.hasOwn(variables, name) ? variables[name as keyof PersonalityVariables] : match,
+  );
+}
+
+/**
+ * Cuts text to at most `max` characters, preferring a paragraph or line
+ * boundary, and marks the cut.
+ */
+function truncate(text: string, max: number): string {
+  const room = max - TRUNCATION_NOTE.length - 2;
+  if (room <= 0) return '';
+  const head = text.slice(0, room);
+  const boundary = Math.max(head.lastIndexOf('\n\n'), head.lastIndexOf('\n'));
+  return `${(boundary > room / 2 ? head.slice(0, boundary) : head).trimEnd()}\n\n${TRUNCATION_NOTE}`;
+}
+
+/**
+ * Loads the personality sections in PERSONALITY_FILES order. For each file the
+ * group's copy replaces the global default; a group only needs the files it
+ * wants to change. Returns the rendered sections, fitted to the size budget.
+ */
+export function loadPersonality(variables: PersonalityVariables, options: PersonalityOptions = {}): string[] {
+  const globalDir = options.globalDir ?? GLOBAL_PERSONALITY_DIR;
+  const groupDir = options.groupDir ?? GROUP_PERSONALITY_DIR;
+  let remaining = options.budgetChars ?? PERSONALITY_BUDGET_CHARS;
+
+  const sections: string[] = [];
+  for (const file of PERSONALITY_FILES) {
+    const raw = readOptionalFile(path.join(groupDir, file)) || readOptionalFile(path.join(globalDir, file));
+    if (!raw) continue;
+
+    const text = renderTemplate(raw, variables);
+    if (text.length <= remaining) {
+      sections.push(text);
+      remaining -= text.length;
+      continue;
+    }
+
+    const cut = truncate(text, remaining);
+    process.stderr.write(cut
+      ? `Personality budget exceeded: ${file} truncated from ${text.length} to ${cut.length} chars\n`
+      : `Personality budget exceeded: ${file} dropped\n`);
+    if (cut) sections.push(cut);
+    remaining = 0;
+  }
+  return sections;
+}
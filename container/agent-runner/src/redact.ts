@@ -0,0 +1,101 @@
+// mdclaw agent-runner: secret redaction for everything that leaves the container
+// The redactor is process-wide: secret values are registered once at startup
+// and every writer (sentinel output, IPC files, transcripts) calls redact().
+
+const REDACTED = '[REDACTED]';
+
+// Values shorter than this are not treated as secrets (e.g. "true", "1"),
+// since replacing them would mangle ordinary text.
+const MIN_SECRET_LENGTH = 8;
+
+// Well-known credential formats, redacted even if the host never sent them.
+// A named `prefix` group is kept in the output (e.g. the `key=` part).
+const DEFAULT_PATTERNS: RegExp[] = [
+  /\bsk-(?:ant-)?[A-Za-z0-9_-]{20,}/g,                         // Anthropic / OpenAI-style API keys
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,                            // AWS access key IDs
+  /(?<prefix>aws_secret_access_key\s*[=:]\s*)[A-Za-z0-9/+=]{40}/gi, // AWS secret keys in config/env form
+  /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g, // JWTs
+  /\bgh[pousr]_[A-Za-z0-9]{30,}\b/g,                           // GitHub tokens
+  /\bxox[abeprs]-[A-Za-z0-9-]{10,}/g,                          // Slack tokens
+];
+
+let secretValues: string[] = [];
+let patterns: RegExp[] = DEFAULT_PATTERNS;
+let redactions = 0;
+
+/**
+ * Registers the secret values and extra patterns to scrub.
+ * Longest values are replaced first so a secret containing another is fully removed.
+ * Host patterns redact the whole match unless they name a `(?<prefix>...)` group.
+ *
+ * @param secrets - ContainerInput.secrets (values are what get redacted)
+ * @param extraPatterns - Additional regular expressions from the host
+ * @returns One message per pattern that could not be compiled and was skipped
+ */
+export function configureRedaction(secrets: Record<string, string>, extraPatterns: unknown = []): string[] {
+  secretValues = Object.values(secrets)
+    .filter((v) => typeof v === 'string' && v.length >= MIN_SECRET_LENGTH)
+    .sort((a, b) => b.length - a.length);
+
+  const errors: string[] = [];
+  const extra: RegExp[] = [];
+  if (!Array.isArray(extraPatterns)) {
+    errors.push('Ignoring redactPatterns: not an array');
+  } else {
+    for (const p of extraPatterns) {
+      try {
+        if (typeof p !== 'string') throw new Error('not a string');
+        extra.push(new RegExp(p, 'g'));
+      } catch (err) {
+        errors.push(`Skipping invalid redact pattern ${JSON.stringify(p)}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+  patterns = [...DEFAULT_PATTERNS, ...extra];
+  return errors;
+}
+
+/**
+ * Replaces every known secret value and pattern match in `text` with [REDACTED].
+ */
+export function redact(text: string): string {
+  let result = text;
+  for (const value of secretValues) {
+    const parts = result.split(value);
+    if (parts.length > 1) {
+      redactions += parts.length - 1;
+      result = parts.join(REDACTED);
+    }
+  }
+  for (const pattern of patterns) {
+    result = result.replace(pattern, (...args: unknown[]) => {
+      redactions++;
+      // With named groups, the last replacer argument is the groups object
+      const groups = args[args.length - 1] as { prefix?: string } | string;
+      const prefix = typeof groups === 'object' ? groups.prefix : undefined;
+      return prefix ? prefix + REDACTED : REDACTED;
+    });
+  }
+  return result;
+}
+
+/**
+ * Redacts every string inside a JSON-compatible value (IPC payloads).
+ */
+export function redactDeep<T>(value: T): T {
+  if (typeof value === 'string') return redact(value) as T;
+  if (Array.isArray(value)) return value.map((v) => redactDeep(v)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, redactDeep(v)]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Number of replacements made since startup.
+ */
+export function redactionCount(): number {
+  return redactions;
+}
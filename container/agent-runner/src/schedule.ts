@@ -0,0 +1,79 @@
+// mdclaw agent-runner: schedule validation and next-run preview for schedule_task
+// The host drops invalid schedules silently, so bad values are rejected here,
+// where the model can see the error and retry.
+
+import cronParser from 'cron-parser';
+import { parseLocalTime } from './time.js';
+
+export type ScheduleType = 'cron' | 'interval' | 'once';
+
+// Shortest allowed interval; anything tighter is almost certainly a mistake (ms vs s)
+export const MIN_INTERVAL_MS = 60_000;
+
+// Longest allowed interval (one year); longer ones are better written as cron or once
+export const MAX_INTERVAL_MS = 365 * 24 * 60 * 60 * 1000;
+
+// How many upcoming fire times are reported back to the model
+export const PREVIEW_RUNS = 3;
+
+export type ScheduleValidation =
+  | { ok: true; value: string; nextRuns: Date[] }
+  | { ok: false; error: string };
+
+/**
+ * Validates a schedule and computes its next fire times.
+ * - cron:     five-field expression, evaluated in `timezone`
+ * - interval: whole milliseconds, between MIN_INTERVAL_MS and MAX_INTERVAL_MS
+ * - once:     a local time or ISO timestamp (see parseLocalTime) in the future
+ * On success `value` is what the host should store: for "once" the resolved UTC ISO timestamp.
+ */
+export function validateSchedule(
+  type: ScheduleType,
+  value: string,
+  timezone: string,
+  now: Date = new Date(),
+): ScheduleValidation {
+  const trimmed = value.trim();
+
+  switch (type) {
+    case 'cron': {
+      if (trimmed.split(/\s+/).length !== 5) {
+        return { ok: false, error: `Invalid cron expression "${value}": expected five fields (minute hour day-of-month month day-of-week), e.g. "0 9 * * 2" for Tuesdays at 9:00.` };
+      }
+      try {
+        const expression = cronParser.parseExpression(trimmed, { tz: timezone, currentDate: now });
+        const nextRuns = Array.from({ length: PREVIEW_RUNS }, () => expression.next().toDate());
+        return { ok: true, value: trimmed, nextRuns };
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err);
+        return { ok: false, error: `Invalid cron expression "${value}": ${errMsg}` };
+      }
+    }
+
+    case 'interval': {
+      if (!/^\d+$/.test(trimmed)) {
+        return { ok: false, error: `Invalid interval "${value}": expected a whole number of milliseconds, e.g. "3600000" for hourly.` };
+      }
+      const ms = Number(trimmed);
+      if (ms < MIN_INTERVAL_MS) {
+        return { ok: false, error: `Interval ${ms} ms is too short: the minimum is ${MIN_INTERVAL_MS} ms (1 minute).` };
+      }
+      if (!Number.isSafeInteger(ms) || ms > MAX_INTERVAL_MS) {
+        return { ok: false, error: `Interval "${value}" is too long: the maximum is ${MAX_INTERVAL_MS} ms (1 year). Use a cron or once schedule instead.` };
+      }
+      const nextRuns = Array.from({ length: PREVIEW_RUNS }, (_, i) => new Date(now.getTime() + ms * (i + 1)));
+      return { ok: true, value: trimmed, nextRuns };
+    }
+
+    case 'once': {
+      const at = parseLocalTime(trimmed, timezone, now);
+      if (!at) {
+        return { ok: false, error: `Could not understand "${value}" as a time. Use e.g. "9am", "tomorrow 18:30" or an ISO timestamp.` };
+      }
+      if (at <= now) {
+        return { ok: false, error: `"${value}" resolves to ${at.toISOString()}, which is in the past.` };
+      }
+      return { ok: true, value: at.toISOString(), nextRuns: [at] };
+    }
+  }
+}
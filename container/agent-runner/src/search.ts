@@ -0,0 +1,71 @@
+// mdclaw agent-runner: local keyword search and BM25 ranking
+// Small, dependency-free text search used for transcript history and memories.
+
+// BM25 tuning: k1 controls term-frequency saturation, b length normalization.
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'all', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by',
+  'can', 'could', 'did', 'do', 'for', 'from',
+  'had', 'has', 'have', 'he', 'her', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it',
+  'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the',
+  'their', 'them', 'then', 'there', 'they', 'this', 'to', 'up', 'us', 'was', 'we',
+  'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+/**
+ * Lowercases and splits text into word tokens, dropping stopwords and
+ * single characters.
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}_'-]*/gu) ?? [])
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t));
+}
+
+/**
+ * Counts how often each query term occurs in `text` (keyword mode).
+ * Returns 0 if no term occurs.
+ */
+export function keywordScore(queryTerms: string[], text: string): number {
+  const tokens = tokenize(text);
+  return queryTerms.reduce((sum, term) => sum + tokens.filter((t) => t === term).length, 0);
+}
+
+/**
+ * Scores every document against the query with Okapi BM25.
+ * Returns one score per document, in input order (0 = no matching term).
+ */
+export function bm25Scores(queryTerms: string[], documents: string[]): number[] {
+  const docs = documents.map(tokenize);
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / Math.max(docs.length, 1);
+
+  return docs.map((doc) => {
+    let score = 0;
+    for (const term of new Set(queryTerms)) {
+      const tf = doc.filter((t) => t === term).length;
+      if (tf === 0) continue;
+      const df = docs.filter((d) => d.includes(term)).length;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / (avgLength || 1)));
+    }
+    return score;
+  });
+}
+
+/**
+ * Returns up to `max` short excerpts of `text` around lines containing a query term.
+ */
+export function snippets(queryTerms: string[], text: string, max = 3, radius = 80): string[] {
+  const results: string[] = [];
+  for (const line of text.split('\n')) {
+    const lower = line.toLowerCase();
+    const hit = queryTerms.map((t) => lower.indexOf(t)).filter((i) => i >= 0).sort((a, b) => a - b)[0];
+    if (hit === undefined) continue;
+    const start = Math.max(0, hit - radius);
+    const end = Math.min(line.length, hit + radius);
+    results.push(`${start > 0 ? '...' : ''}${line.slice(start, end).trim()}${end < line.length ? '...' : ''}`);
+    if (results.length >= max) break;
+  }
+  return results;
+}
@@ -1,27 +1,71 @@
-// mdclaw agent-runner: security utilities for subprocess environment
+// mdclaw agent-runner: security utilities for subprocess environment and Bash commands
 
+import fs from 'node:fs';
+import path from 'node:path';
 import type { HookCallback, PreToolUseHookInput } from '@anthropic-ai/claude-code';
 
-// Secrets that must not leak to bash subprocesses spawned by Claude.
-// These are needed by the SDK for API auth but should never be visible
-// to commands the agent runs.
-const SECRET_ENV_VARS = ['ANTHROPIC_API_KEY', 'CLAUDE_CODE_OAUTH_TOKEN'];
+// Secrets that must never leak to bash subprocesses spawned by Claude.
+// These are needed by the SDK for API auth and are hidden regardless of
+// any exposure policy.
+const ALWAYS_HIDDEN_ENV_VARS = ['ANTHROPIC_API_KEY', 'CLAUDE_CODE_OAUTH_TOKEN'];
+
+// Only valid shell identifiers may be interpolated into the unset prefix
+const ENV_NAME_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Whether a secret name is a shell identifier the sanitize hook can unset.
+ * Secrets with other names must not be put in the SDK env at all.
+ */
+export function isValidEnvName(name: string): boolean {
+  return ENV_NAME_RE.test(name);
+}
+
+/**
+ * How a secret from ContainerInput.secrets may be seen by Bash:
+ * - 'hidden' (default): unset before every command
+ * - 'bash': visible to every command
+ * - { commands }: visible only when every binary the command runs is one of
+ *   these (e.g. { commands: ['agent-browser'] } for the x-integration skill);
+ *   never when it runs a shell or eval
+ */
+export type SecretExposure = 'hidden' | 'bash' | { commands: string[] };
+
+function isExposed(exposure: SecretExposure | undefined, command: string): boolean {
+  if (exposure === 'bash') return true;
+  if (exposure && typeof exposure === 'object') {
+    // Every segment must be allowed, or `agent-browser; echo $SECRET` would leak it.
+    // Shells and eval run whatever they are given, so they never match an exposure.
+    const binaries = commandBinaries(command);
+    return binaries.length > 0 && binaries.every((b) => !SCRIPT_RUNNERS.has(b) && exposure.commands.includes(b));
+  }
+  return false;
+}
 
 /**
  * Creates a PreToolUse hook that strips secret env vars from every Bash command.
  * Register with matcher 'Bash' so it only fires for bash tool invocations.
  *
  * Mechanism: prepends `unset KEY1 KEY2 ... 2>/dev/null;` to each command,
- * ensuring the shell subprocess cannot read API keys even though the SDK
+ * ensuring the shell subprocess cannot read secrets even though the SDK
  * process itself has them in its environment.
+ *
+ * @param secretNames - Every key merged into the SDK env from ContainerInput.secrets
+ *   (invalid names are never merged; see isValidEnvName)
+ * @param exposure - Per-secret exposure policy; unlisted secrets are hidden
  */
-export function createSanitizeBashHook(): HookCallback {
+export function createSanitizeBashHook(
+  secretNames: string[] = [],
+  exposure: Record<string, SecretExposure> = {},
+): HookCallback {
+  const names = [...new Set([...ALWAYS_HIDDEN_ENV_VARS, ...secretNames])].filter(isValidEnvName);
+
   return async (input) => {
     const preInput = input as PreToolUseHookInput;
     const command = (preInput.tool_input as { command?: string })?.command;
     if (!command) return {};
 
-    const unsetPrefix = `unset ${SECRET_ENV_VARS.join(' ')} 2>/dev/null; `;
+    const hidden = names.filter((n) => ALWAYS_HIDDEN_ENV_VARS.includes(n) || !isExposed(exposure[n], command));
+    const unsetPrefix = `unset ${hidden.join(' ')} 2>/dev/null; `;
     return {
       hookSpecificOutput: {
         hookEventName: 'PreToolUse' as const,
@@ -33,3 +77,208 @@ export function createSanitizeBashHook(): HookCallback {
     };
   };
 }
+
+// Mounted read-only by the host so the agent cannot edit its own policy.
+// Lives outside /data, which the agent can write to.
+export const BASH_POLICY_PATH = '/etc/mdclaw/bash-policy.json';
+
+// Binaries that open network connections; checked against private addresses
+// when blockPrivateNetwork is set.
+const NETWORK_BINARIES = ['curl', 'wget', 'nc', 'ncat', 'netcat', 'telnet', 'ssh', 'scp', 'rsync', 'http', 'https', 'ftp'];
+
+// Loopback, RFC 1918, link-local (incl. cloud metadata), CGNAT, and internal hostnames
+const PRIVATE_HOST_RE = /(?:^|[\s/@'"=])(?:localhost|127(?:\.\d{1,3}){3}|10(?:\.\d{1,3}){3}|192\.168(?:\.\d{1,3}){2}|172\.(?:1[6-9]|2\d|3[01])(?:\.\d{1,3}){2}|169\.254(?:\.\d{1,3}){2}|100\.(?:6[4-9]|[7-9]\d|1[01]\d|12[0-7])(?:\.\d{1,3}){2}|0\.0\.0\.0|\[::1?\]|[\w.-]+\.(?:internal|local|localhost))(?=$|[\s:/'"])/i;
+
+// Wrappers skipped when finding the binary a command segment runs
+const COMMAND_WRAPPERS = new Set(['sudo', 'env', 'command', 'exec', 'nohup', 'time', 'timeout', 'nice', 'xargs']);
+
+// Binaries that run a command line given as an argument (`sh -c '...'`, `eval ...`)
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh']);
+const SCRIPT_RUNNERS = new Set([...SHELLS, 'eval']);
+
+export interface BashPolicyRule {
+  /** Regular expression tested against the full command */
+  pattern: string;
+  /** Shown to the model when the rule denies a command */
+  reason?: string;
+}
+
+/**
+ * Rule-based policy for Bash commands, loaded from BASH_POLICY_PATH.
+ *
+ * Evaluation order: deny rules, blocked binaries, private network access,
+ * then the allow list (if non-empty, every command must match one pattern).
+ */
+export interface BashPolicy {
+  /**
+   * 'enforce' (default) denies matching commands.
+   * 'ask' also denies them, but sends an approval request to the main group
+   * so an admin can adjust the policy.
+   */
+  mode?: 'enforce' | 'ask';
+  allow?: string[];
+  deny?: BashPolicyRule[];
+  /** Binary names (e.g. "nmap") that may not be run anywhere in a command */
+  blockedBinaries?: string[];
+  /** Block network binaries from reaching loopback, private and link-local addresses */
+  blockPrivateNetwork?: boolean;
+}
+
+/**
+ * A BashPolicy with its patterns compiled, as returned by loadBashPolicy.
+ */
+export interface CompiledBashPolicy {
+  mode: 'enforce' | 'ask';
+  allow: RegExp[];
+  deny: Array<{ pattern: RegExp; reason: string }>;
+  blockedBinaries: string[];
+  blockPrivateNetwork: boolean;
+}
+
+export type BashPolicyDecision = { allowed: true } | { allowed: false; reason: string };
+
+function compilePattern(pattern: unknown, where: string): RegExp {
+  if (typeof pattern !== 'string') throw new Error(`${where}: expected a pattern string`);
+  try {
+    return new RegExp(pattern);
+  } catch (err) {
+    throw new Error(`${where}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Compiles every pattern in a policy. Throws on a pattern that is not a valid
+ * regular expression, naming the rule it came from.
+ */
+export function compileBashPolicy(policy: BashPolicy): CompiledBashPolicy {
+  return {
+    mode: policy.mode === 'ask' ? 'ask' : 'enforce',
+    allow: (policy.allow ?? []).map((p, i) => compilePattern(p, `allow[${i}]`)),
+    deny: (policy.deny ?? []).map((rule, i) => ({
+      pattern: compilePattern(rule?.pattern, `deny[${i}].pattern`),
+      reason: rule.reason ?? `Command matches a denied pattern (${rule.pattern}).`,
+    })),
+    blockedBinaries: policy.blockedBinaries ?? [],
+    blockPrivateNetwork: policy.blockPrivateNetwork === true,
+  };
+}
+
+/**
+ * Loads and compiles the Bash policy file. Returns undefined if none is mounted.
+ * A file that cannot be parsed, or that contains an invalid pattern, fails
+ * closed: every command is denied.
+ */
+export function loadBashPolicy(filePath: string = BASH_POLICY_PATH): CompiledBashPolicy | undefined {
+  if (!fs.existsSync(filePath)) return undefined;
+  try {
+    return compileBashPolicy(JSON.parse(fs.readFileSync(filePath, 'utf-8')) as BashPolicy);
+  } catch (err) {
+    process.stderr.write(`Invalid bash policy ${filePath}: ${err}\n`);
+    return {
+      mode: 'enforce',
+      allow: [],
+      deny: [{ pattern: /[\s\S]*/, reason: 'The Bash policy file for this group is malformed, so all commands are blocked until an admin fixes it.' }],
+      blockedBinaries: [],
+      blockPrivateNetwork: false,
+    };
+  }
+}
+
+/**
+ * Returns the binaries a command line invokes: the first word of each
+ * pipeline/list segment, command substitution and process substitution,
+ * ignoring env assignments and common wrappers like sudo or env. The command
+ * line given to `sh -c` (or bash, zsh, ...) and to `eval` is scanned as well.
+ */
+export function commandBinaries(command: string): string[] {
+  const binaries: string[] = [];
+  for (const segment of command.split(/\|\||&&|[;|&\n`]|[$<>]\(/)) {
+    const words = segment.trim().replace(/^[({\s]+/, '').split(/\s+/).filter(Boolean);
+    let i = 0;
+    // Skip env assignments, wrappers, and their flags/durations (e.g. `timeout 10s`)
+    while (i < words.length && (/^\w+=/.test(words[i]) || COMMAND_WRAPPERS.has(words[i]) || words[i].startsWith('-') || /^\d+(\.\d+)?[smhd]?$/.test(words[i]))) {
+      i++;
+    }
+    if (i >= words.length) continue;
+    // A one-word substitution like `$(whoami)` leaves its closing paren on the word
+    const binary = path.basename(words[i].replace(/^['"]|[)'"]+$/g, ''));
+    binaries.push(binary);
+
+    // The script argument starts after -c (or a flag group containing c, like -lc)
+    const scriptStart = binary === 'eval'
+      ? i + 1
+      : SHELLS.has(binary) ? words.findIndex((w, j) => j > i && /^-[a-z]*c[a-z]*$/.test(w)) + 1 : 0;
+    if (scriptStart > 0) {
+      binaries.push(...commandBinaries(words.slice(scriptStart).join(' ').replace(/^['"]|['"]$/g, '')));
+    }
+  }
+  return binaries;
+}
+
+/**
+ * Evaluates a Bash command against a policy.
+ */
+export function evaluateBashCommand(policy: CompiledBashPolicy, command: string): BashPolicyDecision {
+  for (const rule of policy.deny) {
+    if (rule.pattern.test(command)) {
+      return { allowed: false, reason: rule.reason };
+    }
+  }
+
+  const binaries = commandBinaries(command);
+  const blocked = binaries.find((b) => policy.blockedBinaries.includes(b));
+  if (blocked) {
+    return { allowed: false, reason: `\`${blocked}\` is not permitted in this group.` };
+  }
+
+  if (policy.blockPrivateNetwork && binaries.some((b) => NETWORK_BINARIES.includes(b)) && PRIVATE_HOST_RE.test(command)) {
+    return { allowed: false, reason: 'Network access to local, private or internal addresses is not permitted in this group.' };
+  }
+
+  if (policy.allow.length > 0 && !policy.allow.some((re) => re.test(command))) {
+    return { allowed: false, reason: 'Command does not match any pattern this group allows.' };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Creates a PreToolUse hook that enforces a compiled BashPolicy.
+ * Register with matcher 'Bash', before createSanitizeBashHook.
+ *
+ * Denied commands never run; the reason is returned to the model via
+ * permissionDecisionReason so it can adjust. In 'ask' mode `onAsk` is called
+ * with the command and reason so the caller can request approval.
+ */
+export function createBashPolicyHook(
+  policy: CompiledBashPolicy | undefined,
+  onAsk?: (command: string, reason: string) => void,
+): HookCallback {
+  return async (input) => {
+    if (!policy) return {};
+    const preInput = input as PreToolUseHookInput;
+    const command = (preInput.tool_input as { command?: string })?.command;
+    if (!command) return {};
+
+    const decision = evaluateBashCommand(policy, command);
+    if (decision.allowed) return {};
+
+    let reason = decision.reason;
+    if (policy.mode === 'ask' && onAsk) {
+      try {
+        onAsk(command, decision.reason);
+        reason += ' An approval request has been sent to the main group; tell the user and do not retry until the policy is updated.';
+      } catch (err) {
+        // The command is denied either way; only the approval request is lost
+        process.stderr.write(`Failed to request bash approval: ${err instanceof Error ? err.message : String(err)}\n`);
+      }
+    }
+    return {
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse' as const,
+        permissionDecision: 'deny' as const,
+        permissionDecisionReason: reason,
+      },
+    };
+  };
+}
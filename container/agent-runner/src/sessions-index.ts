@@ -0,0 +1,157 @@
+// mdclaw agent-runner: session summaries in /data/sessions-index.json
+// buildSystemPrompt reads the latest summaries back as "Recent conversation context".
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { redact } from './redact.js';
+import { tokenize } from './search.js';
+import type { TranscriptEntry } from './transcript.js';
+
+export const SESSIONS_INDEX_PATH = '/data/sessions-index.json';
+
+// Entries kept individually; older ones are folded into a single rollup entry
+const MAX_INDEX_ENTRIES = 50;
+const TOPICS_PER_SESSION = 5;
+const TOPICS_PER_ROLLUP = 10;
+const SUMMARY_REQUEST_CHARS = 140;
+const SUMMARY_RESPONSE_CHARS = 200;
+
+export interface SessionIndexEntry {
+  id: string;
+  timestamp: string;
+  /** Archived markdown transcript, relative to /data */
+  transcript: string;
+  topics: string[];
+  summary: string;
+  /** Present on rollup entries: how many sessions were folded in */
+  rolledUp?: number;
+  /** Present on rollup entries: timestamp of the oldest folded session */
+  since?: string;
+}
+
+function clip(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+// Prompts arrive wrapped in the host's XML context; summaries want the words only
+function stripTags(text: string): string {
+  return text.replace(/<[^>]+>/g, ' ');
+}
+
+function topTerms(texts: string[], count: number): string[] {
+  const freq = new Map<string, number>();
+  for (const text of texts) {
+    for (const token of tokenize(text)) {
+      if (token.length < 3 || /^\d+$/.test(token)) continue;
+      freq.set(token, (freq.get(token) ?? 0) + 1);
+    }
+  }
+  return [...freq.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, count)
+    .map(([term]) => term);
+}
+
+/**
+ * Builds an extractive summary of a session without another model call:
+ * what was asked first, how the assistant last answered, and the most
+ * frequent topic words across the conversation.
+ */
+export function summarizeSession(entries: TranscriptEntry[]): { summary: string; topics: string[] } {
+  const userTexts = entries.flatMap((e) => (e.type === 'user' ? [stripTags(e.text)] : []));
+  const assistantTexts = entries.flatMap((e) => (e.type === 'assistant' ? [e.text] : []));
+
+  const parts: string[] = [];
+  if (userTexts.length > 0) {
+    const more = userTexts.length > 1 ? ` (+${userTexts.length - 1} follow-ups)` : '';
+    parts.push(`Asked: ${clip(userTexts[0], SUMMARY_REQUEST_CHARS)}${more}`);
+  }
+  if (assistantTexts.length > 0) {
+    parts.push(`Answered: ${clip(assistantTexts[assistantTexts.length - 1], SUMMARY_RESPONSE_CHARS)}`);
+  }
+
+  return {
+    summary: parts.join(' — '),
+    topics: topTerms([...userTexts, ...assistantTexts], TOPICS_PER_SESSION),
+  };
+}
+
+/**
+ * Normalizes one stored entry, or returns null if it lacks a timestamp or
+ * summary. Older index files may be missing the other fields.
+ */
+function normalizeEntry(value: unknown): SessionIndexEntry | null {
+  if (!value || typeof value !== 'object') return null;
+  const e = value as Record<string, unknown>;
+  if (typeof e.timestamp !== 'string' || Number.isNaN(Date.parse(e.timestamp)) || typeof e.summary !== 'string') {
+    return null;
+  }
+  return {
+    id: typeof e.id === 'string' ? e.id : e.timestamp,
+    timestamp: e.timestamp,
+    transcript: typeof e.transcript === 'string' ? e.transcript : '',
+    topics: Array.isArray(e.topics) ? e.topics.filter((t): t is string => typeof t === 'string') : [],
+    summary: e.summary,
+    ...(typeof e.rolledUp === 'number' ? { rolledUp: e.rolledUp } : {}),
+    ...(typeof e.since === 'string' ? { since: e.since } : {}),
+  };
+}
+
+/**
+ * Reads the sessions index. A missing or malformed file yields an empty list;
+ * entries that cannot be normalized are dropped.
+ */
+export function readSessionsIndex(indexPath: string = SESSIONS_INDEX_PATH): SessionIndexEntry[] {
+  try {
+    if (fs.existsSync(indexPath)) {
+      const parsed = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+      if (Array.isArray(parsed)) {
+        return parsed.map(normalizeEntry).filter((e): e is SessionIndexEntry => e !== null);
+      }
+    }
+  } catch {
+    // Malformed index is rebuilt from scratch
+  }
+  return [];
+}
+
+/**
+ * Folds entries beyond MAX_INDEX_ENTRIES (oldest first, including any
+ * existing rollup) into a single rollup entry at the head of the list.
+ */
+export function rollUpSessionsIndex(entries: SessionIndexEntry[]): SessionIndexEntry[] {
+  if (entries.length <= MAX_INDEX_ENTRIES) return entries;
+
+  const keep = entries.slice(-(MAX_INDEX_ENTRIES - 1));
+  const folded = entries.slice(0, entries.length - keep.length);
+  const count = folded.reduce((sum, e) => sum + (e.rolledUp ?? 1), 0);
+  const since = folded[0].since ?? folded[0].timestamp;
+  const first = since.slice(0, 10);
+  const last = folded[folded.length - 1].timestamp.slice(0, 10);
+  const topics = topTerms(folded.map((e) => e.topics.join(' ')), TOPICS_PER_ROLLUP);
+
+  const rollup: SessionIndexEntry = {
+    id: `rollup-${first}-${last}`,
+    timestamp: folded[folded.length - 1].timestamp,
+    transcript: '',
+    topics,
+    summary: `${count} earlier conversations (${first} to ${last}) covering: ${topics.join(', ')}`,
+    rolledUp: count,
+    since,
+  };
+  return [rollup, ...keep];
+}
+
+/**
+ * Appends an entry to the sessions index, rolls up old entries, and writes
+ * the file atomically (write .tmp, then rename). The summary and topics are
+ * redacted, since they quote the conversation.
+ */
+export function appendSessionsIndex(entry: SessionIndexEntry, indexPath: string = SESSIONS_INDEX_PATH): void {
+  const redacted = { ...entry, summary: redact(entry.summary), topics: entry.topics.map(redact) };
+  const entries = rollUpSessionsIndex([...readSessionsIndex(indexPath), redacted]);
+  const tmpPath = path.join(path.dirname(indexPath), `.${path.basename(indexPath)}.tmp`);
+  fs.writeFileSync(tmpPath, JSON.stringify(entries, null, 2));
+  fs.renameSync(tmpPath, indexPath);
+}
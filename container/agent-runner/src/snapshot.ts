@@ -0,0 +1,172 @@
+// mdclaw agent-runner: live view of the host's task and group snapshots
+// The host writes current_tasks.json and available_groups.json before the container
+// starts and may rewrite them at any time. HostSnapshot watches both files and overlays
+// commands this session has sent that a snapshot does not reflect yet.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { IpcResponse } from './ipc-writer.js';
+
+// Fallback polling for mounts where fs.watch misses host-side writes
+const SNAPSHOT_POLL_MS = 2_000;
+
+export type SnapshotRecord = Record<string, unknown>;
+
+type SnapshotKind = 'tasks' | 'groups';
+
+const SNAPSHOT_FILES: Record<SnapshotKind, string> = {
+  tasks: 'current_tasks.json',
+  groups: 'available_groups.json',
+};
+
+// Field that identifies a record in each snapshot
+const ID_FIELDS: Record<SnapshotKind, string> = {
+  tasks: 'id',
+  groups: 'folder',
+};
+
+/**
+ * A command this session sent, applied on top of the host snapshot: fields are
+ * merged into the record with the same id. Only a 'create' (schedule_task,
+ * register_group) is appended when the snapshot has no such record yet.
+ */
+export interface PendingChange {
+  kind: SnapshotKind;
+  action: 'create' | 'update';
+  id: string;
+  fields: SnapshotRecord;
+  acked: boolean;
+  /** The id came from the host's ack (schedule_task's task_id), so only it identifies the record */
+  hostId?: boolean;
+}
+
+function hasFields(record: SnapshotRecord, fields: SnapshotRecord): boolean {
+  return Object.entries(fields).every(([key, value]) => JSON.stringify(record[key]) === JSON.stringify(value));
+}
+
+/**
+ * Whether a snapshot already shows a change, judged by content: the host's
+ * snapshot mtime and this container's clock cannot be compared.
+ * - create: a record has its id, or, unless the id was assigned by the host,
+ *   a record carries all of its fields (an ack without a task_id leaves the
+ *   local placeholder id, which no snapshot will ever contain)
+ * - update: its record carries the new fields, or is gone after an ack
+ */
+function isReflected(change: PendingChange, records: SnapshotRecord[], idField: string): boolean {
+  const record = records.find((r) => r[idField] === change.id);
+  if (change.action === 'create') {
+    return record !== undefined || (!change.hostId && records.some((r) => hasFields(r, change.fields)));
+  }
+  return record ? hasFields(record, change.fields) : change.acked;
+}
+
+export class HostSnapshot {
+  private records: Record<SnapshotKind, SnapshotRecord[]> = { tasks: [], groups: [] };
+  private mtimes: Record<SnapshotKind, number> = { tasks: 0, groups: 0 };
+  private pending: PendingChange[] = [];
+  private watcher: fs.FSWatcher | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly ipcDir: string) {
+    this.refresh();
+  }
+
+  /** Re-reads either snapshot file whose mtime changed and drops overlays it supersedes. */
+  refresh(): void {
+    for (const kind of Object.keys(SNAPSHOT_FILES) as SnapshotKind[]) {
+      const filePath = path.join(this.ipcDir, SNAPSHOT_FILES[kind]);
+      try {
+        const mtime = fs.statSync(filePath).mtimeMs;
+        if (mtime === this.mtimes[kind]) continue;
+        const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        this.records[kind] = Array.isArray(parsed) ? parsed as SnapshotRecord[] : [];
+        this.mtimes[kind] = mtime;
+      } catch {
+        // Missing or mid-write; keep the last good copy and retry on the next change
+        continue;
+      }
+      // Overlays the new snapshot already shows are no longer needed
+      const records = this.records[kind];
+      this.pending = this.pending.filter((p) => p.kind !== kind || !isReflected(p, records, ID_FIELDS[kind]));
+    }
+  }
+
+  /**
+   * Starts watching the IPC directory so host rewrites are picked up mid-session.
+   * Polling runs alongside fs.watch, which is unreliable on some bind mounts.
+   */
+  watch(): void {
+    if (this.timer) return;
+    try {
+      this.watcher = fs.watch(this.ipcDir, (_event, filename) => {
+        if (filename && Object.values(SNAPSHOT_FILES).includes(filename.toString())) this.refresh();
+      });
+      this.watcher.on('error', () => {
+        // Polling below still covers it
+      });
+    } catch {
+      // Directory may not support watching; polling below still covers it
+    }
+    this.timer = setInterval(() => this.refresh(), SNAPSHOT_POLL_MS);
+    this.timer.unref();
+  }
+
+  close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Tasks from the host snapshot with this session's pending changes applied. */
+  tasks(): SnapshotRecord[] {
+    return this.merged('tasks');
+  }
+
+  /** Groups from the host snapshot with this session's pending registrations applied. */
+  groups(): SnapshotRecord[] {
+    return this.merged('groups');
+  }
+
+  /**
+   * Records a command just sent to the host. Settle it with the host's response.
+   * Pass 'create' for commands that add a record; other changes only modify one.
+   */
+  track(kind: SnapshotKind, id: string, fields: SnapshotRecord, action: PendingChange['action'] = 'update'): PendingChange {
+    const change: PendingChange = { kind, action, id, fields, acked: false };
+    this.pending.push(change);
+    return change;
+  }
+
+  /**
+   * Applies the host's answer: a rejection drops the change, an acknowledgement
+   * keeps it until a newer snapshot arrives (adopting a host-assigned task_id).
+   * No answer keeps it, marked unconfirmed.
+   */
+  settle(change: PendingChange, response: IpcResponse | null): void {
+    if (!response) return;
+    if (!response.ok) {
+      this.pending = this.pending.filter((p) => p !== change);
+      return;
+    }
+    change.acked = true;
+    const taskId = response.result?.task_id;
+    if (change.kind === 'tasks' && typeof taskId === 'string') {
+      change.id = taskId;
+      change.hostId = true;
+    }
+  }
+
+  private merged(kind: SnapshotKind): SnapshotRecord[] {
+    const idField = ID_FIELDS[kind];
+    const records = this.records[kind].map((r) => ({ ...r }));
+    for (const change of this.pending.filter((p) => p.kind === kind)) {
+      const overlay = { ...change.fields, ...(change.acked ? {} : { unconfirmed: true }) };
+      const existing = records.find((r) => r[idField] === change.id);
+      if (existing) Object.assign(existing, overlay);
+      // An update for a record the snapshot lacks would show up as a phantom record
+      else if (change.action === 'create') records.push({ [idField]: change.id, ...overlay });
+    }
+    return records;
+  }
+}
@@ -0,0 +1,87 @@
+// mdclaw agent-runner: structured outcome of a scheduled task run
+// Written to IPC at the end of every isScheduledTask run so the host can tell
+// "ran and had nothing to say" apart from "failed".
+
+import { writeIpcCommand } from './ipc-writer.js';
+
+// Summaries longer than this are shortened; the full text is in the transcript
+const TASK_SUMMARY_CHARS = 500;
+
+/**
+ * - success: the task ran; its result was sent to the chat (unless notify is false)
+ * - skipped: the task ran but found nothing worth reporting; nothing was sent
+ * - failure: the query threw, the SDK reported an error, a limit stopped the run,
+ *            or the agent reported failure via task_complete
+ */
+export type TaskResultStatus = 'success' | 'failure' | 'skipped';
+
+export interface TaskResult {
+  task_id?: string;
+  status: TaskResultStatus;
+  summary: string;
+  error?: string;
+  duration_ms: number;
+  /** Whether the run's final result was delivered to the chat (send_message output is not counted) */
+  notified: boolean;
+  session_id?: string;
+}
+
+/**
+ * The agent's own verdict on a scheduled run, set through the task_complete tool.
+ * Shared between the MCP server and the query loop in index.ts.
+ */
+export class TaskReport {
+  status: TaskResultStatus | undefined;
+  summary: string | undefined;
+  error: string | undefined;
+  notify = true;
+
+  complete(status: TaskResultStatus, summary: string, options: { notify?: boolean; error?: string } = {}): void {
+    this.status = status;
+    this.summary = summary;
+    this.error = options.error;
+    this.notify = status !== 'skipped' && (options.notify ?? true);
+  }
+
+  /** True when the final result should be withheld from the chat. */
+  get silenced(): boolean {
+    return !this.notify;
+  }
+}
+
+export function clipSummary(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > TASK_SUMMARY_CHARS ? `${flat.slice(0, TASK_SUMMARY_CHARS - 1)}…` : flat;
+}
+
+/**
+ * Resolves the task_result for a run. A runner-side error (exception, SDK error
+ * result, limit) always means failure; otherwise the agent's task_complete
+ * verdict wins, defaulting to success.
+ */
+export function resolveTaskResult(
+  taskReport: TaskReport,
+  run: { taskId?: string; error?: string; lastResult: string; durationMs: number; sessionId?: string },
+): TaskResult {
+  const error = run.error ?? (taskReport.status === 'failure' ? taskReport.error ?? taskReport.summary : undefined);
+  return {
+    ...(run.taskId ? { task_id: run.taskId } : {}),
+    status: run.error ? 'failure' : taskReport.status ?? 'success',
+    summary: clipSummary(taskReport.summary ?? run.lastResult),
+    ...(error ? { error } : {}),
+    duration_ms: run.durationMs,
+    notified: run.lastResult !== '' && !taskReport.silenced,
+    ...(run.sessionId ? { session_id: run.sessionId } : {}),
+  };
+}
+
+/**
+ * Writes the task_result IPC command to tasks/.
+ */
+export function writeTaskResult(ipcDir: string, groupFolder: string, result: TaskResult): string {
+  return writeIpcCommand(ipcDir, {
+    type: 'task_result',
+    payload: { ...result },
+    source_group: groupFolder,
+  });
+}
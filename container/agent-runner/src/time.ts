@@ -0,0 +1,166 @@
+// mdclaw agent-runner: timezone-aware time parsing and formatting
+// Groups live in their own timezone (ContainerInput.timezone); the host stores
+// and fires schedules in UTC. Everything that crosses that line goes through here.
+
+const DEFAULT_LOCALE = 'en-US';
+
+/**
+ * Returns `timezone` if it is a valid IANA zone, else the container's zone.
+ */
+export function resolveTimezone(timezone?: string): string {
+  if (timezone) {
+    try {
+      new Intl.DateTimeFormat(DEFAULT_LOCALE, { timeZone: timezone });
+      return timezone;
+    } catch {
+      process.stderr.write(`Unknown timezone "${timezone}", falling back to the container default\n`);
+    }
+  }
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Returns `locale` canonicalized if it is a valid BCP 47 tag, else en-US.
+ */
+export function resolveLocale(locale?: string): string {
+  if (locale) {
+    try {
+      return Intl.getCanonicalLocales(locale)[0] ?? DEFAULT_LOCALE;
+    } catch {
+      process.stderr.write(`Unknown locale "${locale}", falling back to ${DEFAULT_LOCALE}\n`);
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/** The wall-clock fields of `date` as seen in `timezone`. */
+function wallTime(date: Date, timezone: string): WallTime {
+  const parts = new Intl.DateTimeFormat(DEFAULT_LOCALE, {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(date);
+  const field = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: field('year'), month: field('month'), day: field('day'), hour: field('hour'), minute: field('minute'), second: field('second') };
+}
+
+/** Minutes `timezone` is ahead of UTC at `date` (e.g. 120 for Europe/Berlin in summer). */
+export function timezoneOffsetMinutes(date: Date, timezone: string): number {
+  const w = wallTime(date, timezone);
+  const asUtc = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60_000);
+}
+
+/** Converts a wall-clock time in `timezone` to the UTC instant it denotes. */
+function wallTimeToDate(w: WallTime, timezone: string): Date {
+  const guess = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second);
+  const first = guess - timezoneOffsetMinutes(new Date(guess), timezone) * 60_000;
+  // Re-check at the candidate instant so times near a DST switch land on the right offset
+  return new Date(guess - timezoneOffsetMinutes(new Date(first), timezone) * 60_000);
+}
+
+/** `UTC+02:00`, `UTC-05:30`, `UTC` */
+export function formatUtcOffset(date: Date, timezone: string): string {
+  const offset = timezoneOffsetMinutes(date, timezone);
+  if (offset === 0) return 'UTC';
+  const abs = Math.abs(offset);
+  return `UTC${offset > 0 ? '+' : '-'}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Human-readable local time: "Monday, October 19, 2026 at 9:00 AM (Europe/Berlin, UTC+02:00)".
+ */
+export function formatLocalTime(date: Date, timezone: string, locale: string = DEFAULT_LOCALE): string {
+  const local = new Intl.DateTimeFormat(locale, { timeZone: timezone, dateStyle: 'full', timeStyle: 'short' }).format(date);
+  const offset = formatUtcOffset(date, timezone);
+  return `${local} (${offset === timezone ? timezone : `${timezone}, ${offset}`})`;
+}
+
+/** The local calendar date in `timezone` as YYYY-MM-DD. */
+export function localDate(date: Date, timezone: string): string {
+  const w = wallTime(date, timezone);
+  return `${w.year}-${String(w.month).padStart(2, '0')}-${String(w.day).padStart(2, '0')}`;
+}
+
+const ABSOLUTE_ISO_RE = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/i;
+const LOCAL_ISO_RE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+const NATURAL_TIME_RE = /^(?:(today|tomorrow)\s+)?(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i;
+
+/**
+ * Whether the calendar fields name a real date and time. Date.UTC rolls
+ * 2026-02-31 over to March 3, so the fields must survive a round trip.
+ */
+function isRealWallTime(w: WallTime): boolean {
+  const d = new Date(Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second));
+  return d.getUTCFullYear() === w.year && d.getUTCMonth() === w.month - 1 && d.getUTCDate() === w.day
+    && d.getUTCHours() === w.hour && d.getUTCMinutes() === w.minute && d.getUTCSeconds() === w.second;
+}
+
+function isoWallTime(match: RegExpMatchArray): WallTime {
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  return {
+    year: Number(year), month: Number(month), day: Number(day),
+    hour: Number(hour), minute: Number(minute), second: Number(second),
+  };
+}
+
+/**
+ * Resolves a one-time schedule value to a UTC instant.
+ * - ISO with an offset or Z (2026-10-20T09:00:00+02:00) is taken as-is
+ * - ISO without an offset (2026-10-20T09:00, 2026-10-20) is local time in `timezone`
+ * - "9am", "21:30", "tomorrow 9am", "today at 5:30pm" are local time in `timezone`;
+ *   a bare time that has already passed today means tomorrow
+ * Returns null if the value is not understood or names a date that does not exist.
+ */
+export function parseLocalTime(value: string, timezone: string, now: Date = new Date()): Date | null {
+  const text = value.trim();
+
+  const absolute = text.match(ABSOLUTE_ISO_RE);
+  if (absolute) {
+    if (!isRealWallTime(isoWallTime(absolute))) return null;
+    const date = new Date(text);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  const iso = text.match(LOCAL_ISO_RE);
+  if (iso) {
+    const wall = isoWallTime(iso);
+    return isRealWallTime(wall) ? wallTimeToDate(wall, timezone) : null;
+  }
+
+  const natural = text.match(NATURAL_TIME_RE);
+  // A bare number ("9") is too ambiguous; require minutes or am/pm
+  if (!natural || (natural[3] === undefined && natural[4] === undefined)) return null;
+
+  const [, dayWord, hourText, minuteText = '0', meridiem] = natural;
+  let hour = Number(hourText);
+  const minute = Number(minuteText);
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) return null;
+
+  const today = wallTime(now, timezone);
+  let result = wallTimeToDate({ ...today, hour, minute, second: 0 }, timezone);
+  const addDay = dayWord?.toLowerCase() === 'tomorrow' || (dayWord === undefined && result <= now);
+  if (addDay) {
+    // Step the calendar date, not 24h, so DST changes keep the wall-clock time
+    const next = new Date(Date.UTC(today.year, today.month - 1, today.day + 1));
+    result = wallTimeToDate({
+      year: next.getUTCFullYear(), month: next.getUTCMonth() + 1, day: next.getUTCDate(),
+      hour, minute, second: 0,
+    }, timezone);
+  }
+  return result;
+}
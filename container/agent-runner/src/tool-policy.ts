@@ -0,0 +1,175 @@
+// mdclaw agent-runner: per-group tool policy
+
+import type { HookCallback, PreToolUseHookInput } from '@anthropic-ai/claude-code';
+
+// Claude Code built-in tools granted by default (PascalCase — Claude Code tool
+// names, not API tool names), plus every mdclaw MCP tool.
+const DEFAULT_TOOLS = [
+  'Bash', 'BashOutput', 'KillShell', 'KillBash',
+  'Read', 'Write', 'Edit', 'Glob', 'Grep',
+  'WebSearch', 'WebFetch',
+  'Task', 'TaskOutput', 'TaskStop',
+  'TodoWrite', 'NotebookEdit',
+  'mcp__mdclaw__*',
+];
+
+// Every Claude Code built-in, so a restrictive policy can list the ones it
+// rejects in disallowedTools. KillShell was called KillBash in older releases.
+const BUILTIN_TOOLS = [
+  'Bash', 'BashOutput', 'KillShell', 'KillBash',
+  'Read', 'Write', 'Edit', 'MultiEdit', 'Glob', 'Grep', 'LS',
+  'WebSearch', 'WebFetch',
+  'Task', 'TaskOutput', 'TaskStop',
+  'TodoWrite', 'TodoRead', 'NotebookRead', 'NotebookEdit',
+  'ExitPlanMode', 'SlashCommand', 'ListMcpResourcesTool', 'ReadMcpResourceTool',
+];
+
+// Tools that modify files, run commands or change scheduled or remembered state.
+// Denied when a policy sets readOnly. Messaging tools stay available.
+const MUTATING_TOOLS = [
+  'Bash', 'Write', 'Edit', 'MultiEdit', 'NotebookEdit',
+  'mcp__mdclaw__schedule_task',
+  'mcp__mdclaw__pause_task',
+  'mcp__mdclaw__resume_task',
+  'mcp__mdclaw__cancel_task',
+  'mcp__mdclaw__update_task',
+  'mcp__mdclaw__run_task_now',
+  'mcp__mdclaw__register_group',
+  'mcp__mdclaw__remember',
+  'mcp__mdclaw__forget',
+];
+
+export const MCP_TOOL_PREFIX = 'mcp__mdclaw__';
+
+/**
+ * Constrains one string field of a tool's input with regular expressions.
+ * e.g. { field: 'url', allow: ['^https://'] } for WebFetch.
+ */
+export interface ToolArgumentRule {
+  field: string;
+  /** If present, the value must match at least one pattern */
+  allow?: string[];
+  /** The value must match none of these patterns */
+  deny?: string[];
+}
+
+/**
+ * Per-group tool policy, sent by the host in ContainerInput.toolPolicy.
+ * Tool names may end in `*` to match a prefix (e.g. `mcp__mdclaw__*`).
+ * Omitting the policy keeps the default: every tool in DEFAULT_TOOLS.
+ */
+export interface ToolPolicy {
+  /** Replaces the default tool set when present */
+  allow?: string[];
+  /** Always wins over allow */
+  deny?: string[];
+  /** Deny every tool that writes files, runs shell commands or changes tasks or memories */
+  readOnly?: boolean;
+  /** Argument constraints keyed by tool name */
+  arguments?: Record<string, ToolArgumentRule[]>;
+}
+
+function matchesToolPattern(pattern: string, toolName: string): boolean {
+  return pattern.endsWith('*')
+    ? toolName.startsWith(pattern.slice(0, -1))
+    : pattern === toolName;
+}
+
+/**
+ * Returns true if the policy permits the tool. Applies deny, then readOnly,
+ * then allow (defaulting to DEFAULT_TOOLS).
+ */
+export function isToolAllowed(policy: ToolPolicy | undefined, toolName: string): boolean {
+  if (!policy) return true;
+  if (policy.deny?.some((p) => matchesToolPattern(p, toolName))) return false;
+  if (policy.readOnly && MUTATING_TOOLS.includes(toolName)) return false;
+  return (policy.allow ?? DEFAULT_TOOLS).some((p) => matchesToolPattern(p, toolName));
+}
+
+/**
+ * Resolves the SDK `allowedTools`/`disallowedTools` options for a policy.
+ * With bypassPermissions, allowedTools alone does not remove a tool, so every
+ * built-in the policy rejects is also listed in disallowedTools. mdclaw MCP
+ * tools are filtered at registration time by createMcpServer instead.
+ */
+export function resolveToolOptions(policy: ToolPolicy | undefined): { allowedTools: string[]; disallowedTools: string[] } {
+  const isBuiltin = (t: string): boolean => !t.startsWith(MCP_TOOL_PREFIX) && !t.endsWith('*');
+  const granted = [...new Set([...DEFAULT_TOOLS, ...(policy?.allow ?? [])])].filter(isBuiltin);
+  const known = [...new Set([...BUILTIN_TOOLS, ...granted, ...MUTATING_TOOLS])].filter(isBuiltin);
+  return {
+    allowedTools: [...granted.filter((t) => isToolAllowed(policy, t)), `${MCP_TOOL_PREFIX}*`],
+    disallowedTools: [
+      ...known.filter((t) => !isToolAllowed(policy, t)),
+      ...(policy?.deny ?? []).filter((t) => isBuiltin(t) && !known.includes(t)),
+    ],
+  };
+}
+
+interface CompiledArgumentRule {
+  field: string;
+  allow?: RegExp[];
+  deny: Array<{ source: string; re: RegExp }>;
+}
+
+/**
+ * Compiles every argument rule once. A tool with an invalid pattern maps to the
+ * error message instead, so its calls are denied rather than crashing the hook.
+ */
+function compileArgumentRules(policy: ToolPolicy | undefined): Map<string, CompiledArgumentRule[] | string> {
+  const compiled = new Map<string, CompiledArgumentRule[] | string>();
+  for (const [toolName, rules] of Object.entries(policy?.arguments ?? {})) {
+    try {
+      compiled.set(toolName, rules.map((rule) => ({
+        field: rule.field,
+        ...(rule.allow ? { allow: rule.allow.map((p) => new RegExp(p)) } : {}),
+        deny: (rule.deny ?? []).map((p) => ({ source: p, re: new RegExp(p) })),
+      })));
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      process.stderr.write(`[tool-policy] Invalid argument pattern for ${toolName}: ${errMsg}\n`);
+      compiled.set(toolName, `${toolName} is blocked: this group's tool policy has an invalid argument pattern (${errMsg}).`);
+    }
+  }
+  return compiled;
+}
+
+function deny(reason: string) {
+  return {
+    hookSpecificOutput: {
+      hookEventName: 'PreToolUse' as const,
+      permissionDecision: 'deny' as const,
+      permissionDecisionReason: reason,
+    },
+  };
+}
+
+/**
+ * Creates a PreToolUse hook enforcing the policy's argument rules.
+ * Register without a matcher so it sees every tool call; tools without rules
+ * pass through untouched. Denials go back to the model with the reason.
+ * Patterns are compiled here, once; a tool whose rules don't compile is denied.
+ */
+export function createToolPolicyHook(policy: ToolPolicy | undefined): HookCallback {
+  const compiled = compileArgumentRules(policy);
+  return async (input) => {
+    const preInput = input as PreToolUseHookInput;
+    const rules = compiled.get(preInput.tool_name);
+    if (!rules) return {};
+    if (typeof rules === 'string') return deny(rules);
+
+    const toolInput = (preInput.tool_input ?? {}) as Record<string, unknown>;
+    for (const rule of rules) {
+      const value = toolInput[rule.field];
+      if (typeof value !== 'string') continue;
+
+      const denied = rule.deny.find((p) => p.re.test(value));
+      if (denied) {
+        return deny(`${preInput.tool_name} ${rule.field} matches a pattern this group's policy denies (${denied.source}).`);
+      }
+      if (rule.allow && !rule.allow.some((re) => re.test(value))) {
+        return deny(`${preInput.tool_name} ${rule.field} does not match any pattern this group's policy allows.`);
+      }
+    }
+    return {};
+  };
+}
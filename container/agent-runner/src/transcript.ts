@@ -1,39 +1,174 @@
-// mdclaw agent-runner: transcript archiving
+// mdclaw agent-runner: transcript recording, archiving and search
 
 import fs from 'node:fs';
 import path from 'node:path';
+import type { SDKMessage } from '@anthropic-ai/claude-code';
+import { redact, redactDeep } from './redact.js';
+import { userContentText, type UserContent } from './attachments.js';
+import { bm25Scores, keywordScore, snippets, tokenize } from './search.js';
+
+// Tool inputs longer than this are shortened in the markdown rendering only;
+// the JSONL archive always keeps them in full.
+const MARKDOWN_TOOL_INPUT_CHARS = 200;
+
+/**
+ * One line of the JSONL archive.
+ * - user:        a prompt pushed into the session (initial or follow-up), as text
+ * - assistant:   text the assistant produced
+ * - tool_use:    a tool call the assistant made
+ * - tool_result: the result returned for a tool call
+ * - system:      SDK system messages (init, compact boundaries)
+ * - result:      end of a turn, with outcome and usage
+ */
+export type TranscriptEntry = { timestamp: string } & (
+  | { type: 'user'; text: string }
+  | { type: 'assistant'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: unknown; is_error: boolean }
+  | { type: 'system'; subtype: string; data: Record<string, unknown> }
+  | { type: 'result'; subtype: string; result?: string; num_turns: number; duration_ms: number; total_cost_usd: number; usage: unknown }
+);
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
 
 /**
- * Archives the current conversation transcript to a timestamped markdown file.
+ * Collects a full-fidelity record of a session: every prompt pushed into the
+ * MessageStream and every message the SDK streams back.
+ */
+export class TranscriptRecorder {
+  readonly entries: TranscriptEntry[] = [];
+
+  private add(entry: DistributiveOmit<TranscriptEntry, 'timestamp'>): void {
+    this.entries.push({ timestamp: new Date().toISOString(), ...entry } as TranscriptEntry);
+  }
+
+  /** Records the exact user content pushed into the stream. */
+  recordPrompt(content: UserContent): void {
+    this.add({ type: 'user', text: userContentText(content) });
+  }
+
+  /** Records an SDK message, splitting content blocks into separate entries. */
+  recordSdkMessage(message: SDKMessage): void {
+    switch (message.type) {
+      case 'assistant': {
+        const content = (message.message as { content?: Array<Record<string, unknown>> }).content ?? [];
+        for (const block of content) {
+          if (block.type === 'text' && typeof block.text === 'string') {
+            this.add({ type: 'assistant', text: block.text });
+          } else if (block.type === 'tool_use') {
+            this.add({ type: 'tool_use', id: String(block.id), name: String(block.name), input: block.input });
+          }
+        }
+        break;
+      }
+      case 'user': {
+        // SDK user messages carry tool results; our own prompts are recorded by recordPrompt
+        const content = (message.message as { content?: unknown }).content;
+        if (!Array.isArray(content)) break;
+        for (const block of content as Array<Record<string, unknown>>) {
+          if (block.type === 'tool_result') {
+            this.add({
+              type: 'tool_result',
+              tool_use_id: String(block.tool_use_id),
+              content: block.content,
+              is_error: block.is_error === true,
+            });
+          }
+        }
+        break;
+      }
+      case 'system': {
+        const { type: _type, subtype, ...data } = message;
+        this.add({ type: 'system', subtype, data });
+        break;
+      }
+      case 'result':
+        this.add({
+          type: 'result',
+          subtype: message.subtype,
+          ...(message.subtype === 'success' ? { result: message.result } : {}),
+          num_turns: message.num_turns,
+          duration_ms: message.duration_ms,
+          total_cost_usd: message.total_cost_usd,
+          usage: message.usage,
+        });
+        break;
+      default:
+        // stream_event partials are not archived
+        break;
+    }
+  }
+}
+
+/**
+ * Renders transcript entries as the human-readable markdown archive:
+ * `## User` / `## Assistant` sections, with tool calls listed under the
+ * assistant turn that made them.
+ */
+export function renderTranscriptMarkdown(entries: TranscriptEntry[]): string {
+  let markdown = '';
+  let section: 'user' | 'assistant' | null = null;
+
+  for (const entry of entries) {
+    if (entry.type === 'user') {
+      markdown += `## User\n${entry.text}\n\n`;
+      section = 'user';
+    } else if (entry.type === 'assistant' || entry.type === 'tool_use') {
+      if (section !== 'assistant') {
+        markdown += `## Assistant\n`;
+        section = 'assistant';
+      }
+      if (entry.type === 'assistant') {
+        markdown += `${entry.text}\n\n`;
+      } else {
+        const input = JSON.stringify(entry.input) ?? '';
+        const shown = input.length > MARKDOWN_TOOL_INPUT_CHARS ? `${input.slice(0, MARKDOWN_TOOL_INPUT_CHARS)}...` : input;
+        markdown += `- Tool \`${entry.name}\`: \`${shown}\`\n\n`;
+      }
+    }
+  }
+
+  return markdown;
+}
+
+/**
+ * Archives a session transcript as a timestamped JSONL file (every entry)
+ * plus a markdown rendering of it with the same name.
  * Called before session compaction to preserve conversation history.
+ * Known secrets are redacted before either file is written.
  *
  * @param sessionsDir - Path to the sessions directory (e.g., /data/sessions)
  * @param groupFolder - The group's folder name
- * @param transcript - The conversation content to archive
+ * @param entries - Entries collected by TranscriptRecorder
+ * @param headerFields - Extra `- **Key:** value` lines for the header (e.g. usage totals)
+ * @returns Path of the markdown file
  */
 export function archiveTranscript(
   sessionsDir: string,
   groupFolder: string,
-  transcript: string,
+  entries: TranscriptEntry[],
+  headerFields: Record<string, string> = {},
 ): string {
   const conversationsDir = path.join(sessionsDir, groupFolder, 'conversations');
   fs.mkdirSync(conversationsDir, { recursive: true });
 
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-  const filename = `${timestamp}.md`;
-  const filePath = path.join(conversationsDir, filename);
+  const filePath = path.join(conversationsDir, `${timestamp}.md`);
+  const jsonlPath = path.join(conversationsDir, `${timestamp}.jsonl`);
 
   const header = [
     `# Conversation Archive`,
     ``,
     `- **Group:** ${groupFolder}`,
     `- **Archived:** ${new Date().toISOString()}`,
+    ...Object.entries(headerFields).map(([key, value]) => `- **${key}:** ${value}`),
     ``,
     `---`,
     ``,
   ].join('\n');
 
-  fs.writeFileSync(filePath, header + transcript);
+  fs.writeFileSync(jsonlPath, entries.map((e) => JSON.stringify(redactDeep(e))).join('\n') + '\n');
+  fs.writeFileSync(filePath, redact(header + renderTranscriptMarkdown(entries)));
 
   return filePath;
 }
@@ -50,3 +185,60 @@ export function listTranscripts(sessionsDir: string, groupFolder: string): strin
     .sort()
     .reverse();
 }
+
+/**
+ * Recovers the ISO timestamp from an archive filename (2025-01-07T14-03-22-511Z.md).
+ */
+export function transcriptDate(filename: string): string {
+  const match = filename.match(/^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z/);
+  return match ? `${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z` : filename;
+}
+
+export interface TranscriptSearchHit {
+  file: string;
+  date: string;
+  score: number;
+  snippets: string[];
+}
+
+/**
+ * Searches a group's archived markdown transcripts.
+ * Keyword mode scores by raw term counts and lists newest first;
+ * ranked mode scores with BM25 across all transcripts and lists best first.
+ */
+export function searchTranscripts(
+  sessionsDir: string,
+  groupFolder: string,
+  query: string,
+  options: { limit?: number; ranked?: boolean } = {},
+): TranscriptSearchHit[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  const conversationsDir = path.join(sessionsDir, groupFolder, 'conversations');
+  const files = listTranscripts(sessionsDir, groupFolder);
+  const texts = files.map((f) => fs.readFileSync(path.join(conversationsDir, f), 'utf-8'));
+  const scores = options.ranked
+    ? bm25Scores(terms, texts)
+    : texts.map((text) => keywordScore(terms, text));
+
+  const hits = files
+    .map((file, i) => ({ file, date: transcriptDate(file), score: scores[i], snippets: snippets(terms, texts[i]) }))
+    .filter((hit) => hit.score > 0);
+  if (options.ranked) {
+    hits.sort((a, b) => b.score - a.score);
+  }
+  return hits.slice(0, options.limit ?? 5);
+}
+
+/**
+ * Reads one archived markdown transcript by filename.
+ * Only names returned by listTranscripts are accepted, so the agent cannot
+ * use this to read arbitrary paths.
+ */
+export function readTranscript(sessionsDir: string, groupFolder: string, file: string): string {
+  if (!listTranscripts(sessionsDir, groupFolder).includes(file)) {
+    throw new Error(`No archived conversation named "${file}"`);
+  }
+  return fs.readFileSync(path.join(sessionsDir, groupFolder, 'conversations', file), 'utf-8');
+}
@@ -0,0 +1,149 @@
+// mdclaw agent-runner: token, cost and latency accounting per container run
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { SDKResultMessage } from '@anthropic-ai/claude-code';
+import type { OutputUsage } from './output.js';
+import { redactionCount } from './redact.js';
+
+export interface TurnUsage extends OutputUsage {
+  turn: number;
+  /** Agentic round-trips the SDK made to produce this result */
+  numTurns: number;
+  apiDurationMs: number;
+  subtype: SDKResultMessage['subtype'];
+  completedAt: string;
+}
+
+/**
+ * Contents of ipc/{group}/usage.json. Rewritten after every result so the
+ * host has current numbers even if the container is killed mid-session.
+ */
+export interface SessionUsage {
+  groupFolder: string;
+  sessionId?: string;
+  isScheduledTask: boolean;
+  startedAt: string;
+  updatedAt: string;
+  wallTimeMs: number;
+  totals: OutputUsage;
+  toolCalls: number;
+  /** Secret values/patterns scrubbed from outbound output, IPC files and transcripts */
+  redactions: number;
+  turns: TurnUsage[];
+  /** Set when the session was ended early by a RunLimits ceiling */
+  stopReason?: string;
+}
+
+function emptyUsage(): OutputUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadInputTokens: 0,
+    cacheCreationInputTokens: 0,
+    costUsd: 0,
+    durationMs: 0,
+  };
+}
+
+/**
+ * Accumulates usage from SDK result messages across every query() call in a
+ * container session.
+ *
+ * Token counts on a result message cover that turn only, but total_cost_usd is
+ * cumulative for the underlying Claude Code process, which lives for one
+ * query() call. Call startQuery() before each query() so per-turn cost is
+ * computed as a delta within that call.
+ */
+export class UsageTracker {
+  sessionId: string | undefined;
+  stopReason: string | undefined;
+  private toolCalls = 0;
+  private readonly startedAt = Date.now();
+  private readonly turns: TurnUsage[] = [];
+  private readonly totals = emptyUsage();
+  private queryCostBaseline = 0;
+
+  constructor(
+    private readonly groupFolder: string,
+    private readonly isScheduledTask: boolean,
+  ) {}
+
+  startQuery(): void {
+    this.queryCostBaseline = 0;
+  }
+
+  /**
+   * Records a result message and returns the usage attributable to it.
+   */
+  recordResult(message: SDKResultMessage, turn: number): OutputUsage {
+    const usage: OutputUsage = {
+      inputTokens: message.usage.input_tokens ?? 0,
+      outputTokens: message.usage.output_tokens ?? 0,
+      cacheReadInputTokens: message.usage.cache_read_input_tokens ?? 0,
+      cacheCreationInputTokens: message.usage.cache_creation_input_tokens ?? 0,
+      costUsd: Math.max(0, message.total_cost_usd - this.queryCostBaseline),
+      durationMs: message.duration_ms,
+    };
+    this.queryCostBaseline = message.total_cost_usd;
+
+    this.turns.push({
+      ...usage,
+      turn,
+      numTurns: message.num_turns,
+      apiDurationMs: message.duration_api_ms,
+      subtype: message.subtype,
+      completedAt: new Date().toISOString(),
+    });
+    for (const key of Object.keys(usage) as Array<keyof OutputUsage>) {
+      this.totals[key] += usage[key];
+    }
+    return usage;
+  }
+
+  recordToolCalls(count: number): void {
+    this.toolCalls += count;
+  }
+
+  snapshot(): SessionUsage {
+    return {
+      groupFolder: this.groupFolder,
+      ...(this.sessionId ? { sessionId: this.sessionId } : {}),
+      isScheduledTask: this.isScheduledTask,
+      startedAt: new Date(this.startedAt).toISOString(),
+      updatedAt: new Date().toISOString(),
+      wallTimeMs: Date.now() - this.startedAt,
+      totals: { ...this.totals },
+      toolCalls: this.toolCalls,
+      redactions: redactionCount(),
+      turns: [...this.turns],
+      ...(this.stopReason ? { stopReason: this.stopReason } : {}),
+    };
+  }
+
+  /**
+   * Writes usage.json into the IPC directory atomically (write .tmp, then rename).
+   */
+  writeTo(ipcDir: string): string {
+    const finalPath = path.join(ipcDir, 'usage.json');
+    const tmpPath = path.join(ipcDir, '.usage.json.tmp');
+    fs.writeFileSync(tmpPath, JSON.stringify(this.snapshot(), null, 2));
+    fs.renameSync(tmpPath, finalPath);
+    return finalPath;
+  }
+
+  /**
+   * One-line summaries for the archived transcript header.
+   */
+  summaryFields(): Record<string, string> {
+    const t = this.totals;
+    return {
+      Turns: String(this.turns.length),
+      'Tool calls': String(this.toolCalls),
+      Tokens: `${t.inputTokens} in / ${t.outputTokens} out / ${t.cacheReadInputTokens} cache read / ${t.cacheCreationInputTokens} cache write`,
+      Cost: `$${t.costUsd.toFixed(4)}`,
+      'Wall time': `${((Date.now() - this.startedAt) / 1000).toFixed(1)}s`,
+      ...(this.stopReason ? { 'Stopped by': this.stopReason } : {}),
+    };
+  }
+}
@@ -0,0 +1,150 @@
+// Attachments: validation of inbound attachment lists, conversion into content
+// blocks, staging of outbound files, and the path checks that keep files inside
+// the allowed roots.
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  buildUserContent,
+  MAX_OUTBOUND_FILE_BYTES,
+  mimeTypeFor,
+  parseInboundAttachments,
+  resolveAllowedFile,
+  stageOutboundFile,
+  userContentText,
+  type UserContentBlock,
+} from '../../container/agent-runner/src/attachments.js';
+import { OutboundQueue } from '../../container/agent-runner/src/outbox.js';
+
+describe('attachments', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    // Under /tmp, one of the inbound and outbound roots
+    dir = fs.mkdtempSync('/tmp/attachments-test-');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('parseInboundAttachments', () => {
+    it('should keep well-formed entries and drop malformed ones', () => {
+      const parsed = parseInboundAttachments([
+        { path: '/tmp/a.png', mime_type: 'image/png' },
+        { mime_type: 'image/png' },
+        null,
+        'b.png',
+        { path: '/tmp/c.txt', caption: 42 },
+        { path: '/tmp/d.txt', caption: 'notes' },
+      ], 'test');
+
+      expect(parsed).toEqual([
+        { path: '/tmp/a.png', mime_type: 'image/png' },
+        { path: '/tmp/d.txt', caption: 'notes' },
+      ]);
+    });
+
+    it('should treat a missing or non-array value as no attachments', () => {
+      expect(parseInboundAttachments(undefined, 'test')).toEqual([]);
+      expect(parseInboundAttachments({ path: '/tmp/a.png' }, 'test')).toEqual([]);
+    });
+  });
+
+  describe('buildUserContent', () => {
+    it('should return the plain text when there are no attachments', () => {
+      expect(buildUserContent('hello')).toBe('hello');
+    });
+
+    it('should inline images as base64 after a note naming the file', () => {
+      const image = path.join(dir, 'photo.png');
+      fs.writeFileSync(image, Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+
+      const content = buildUserContent('look', [{ path: image, caption: 'the cat' }]) as UserContentBlock[];
+
+      expect(content).toEqual([
+        { type: 'text', text: 'look' },
+        { type: 'text', text: '[Attachment photo.png — the cat]' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: Buffer.from([0x89, 0x50, 0x4e, 0x47]).toString('base64') } },
+      ]);
+    });
+
+    it('should inline text files as text documents', () => {
+      const notes = path.join(dir, 'notes.txt');
+      fs.writeFileSync(notes, 'buy milk');
+
+      const content = buildUserContent('', [{ path: notes }]) as UserContentBlock[];
+
+      expect(content[1]).toEqual({ type: 'document', source: { type: 'text', media_type: 'text/plain', data: 'buy milk' }, title: 'notes.txt' });
+    });
+
+    it('should use a voice note transcript instead of the audio', () => {
+      const content = buildUserContent('', [{ path: '/tmp/missing.ogg', transcript: 'call me back' }]);
+
+      expect(userContentText(content)).toBe('[Voice note missing.ogg] Transcript: call me back');
+    });
+
+    it('should describe files outside the allowed roots instead of reading them', () => {
+      const content = buildUserContent('', [{ path: '/etc/hostname' }]);
+
+      expect(userContentText(content)).toMatch(/^\[Attachment hostname could not be loaded: File must be inside/);
+    });
+  });
+
+  describe('stageOutboundFile', () => {
+    let outbox: OutboundQueue;
+
+    beforeEach(() => {
+      outbox = new OutboundQueue(path.join(dir, 'ipc'), 'chat@g.us', 'main');
+    });
+
+    it('should copy the file into messages/files and queue a file message', () => {
+      const report = path.join(dir, 'report.pdf');
+      fs.writeFileSync(report, 'pdf bytes');
+
+      const message = stageOutboundFile(outbox, report, { caption: 'Q3 report', sender: 'Analyst' });
+
+      expect(message).toEqual({
+        type: 'file',
+        chat_jid: 'chat@g.us',
+        file: expect.stringMatching(/^files\/.+-report\.pdf$/),
+        filename: 'report.pdf',
+        mime_type: 'application/pdf',
+        size: 9,
+        caption: 'Q3 report',
+        sender: 'Analyst',
+        source_group: 'main',
+        seq: 1,
+        timestamp: expect.any(String),
+      });
+      expect(fs.readFileSync(path.join(outbox.dir, message.file), 'utf-8')).toBe('pdf bytes');
+    });
+
+    it('should reject files outside the allowed roots or over the size limit', () => {
+      const huge = path.join(dir, 'huge.bin');
+      fs.writeFileSync(huge, '');
+      fs.truncateSync(huge, MAX_OUTBOUND_FILE_BYTES + 1);
+
+      expect(() => stageOutboundFile(outbox, '/etc/hostname')).toThrow(/must be inside/);
+      expect(() => stageOutboundFile(outbox, huge)).toThrow(/the limit is/);
+      expect(fs.existsSync(outbox.dir)).toBe(false);
+    });
+
+    it('should guess mime types from the extension', () => {
+      expect(mimeTypeFor('/tmp/a.PNG')).toBe('image/png');
+      expect(mimeTypeFor('/tmp/voice.ogg')).toBe('audio/ogg');
+      expect(mimeTypeFor('/tmp/blob')).toBe('application/octet-stream');
+    });
+  });
+
+  describe('resolveAllowedFile', () => {
+    it('should reject relative paths and symlinks that escape the roots', () => {
+      const link = path.join(dir, 'escape');
+      fs.symlinkSync('/etc/hostname', link);
+
+      expect(() => resolveAllowedFile('notes.txt', ['/tmp'])).toThrow(/must be absolute/);
+      expect(() => resolveAllowedFile(link, ['/tmp'])).toThrow(/resolved to \/etc\/hostname/);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+// IPC command schemas: agreement with the ipc-protocol.md fixture contract,
+// validation in writeIpcCommand, and a conformance run that drives every
+// command-sending MCP tool and checks what lands in tasks/.
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { PassThrough } from 'node:stream';
+import { fileURLToPath } from 'node:url';
+import { parseIpcContract } from '../contract-harness.js';
+import {
+  IPC_PAYLOAD_SCHEMAS,
+  IPC_PROTOCOL_VERSION,
+  ipcPayloadFields,
+  validateIpcCommand,
+  type IpcCommandType,
+} from '../../container/agent-runner/src/ipc-commands.js';
+import { writeIpcCommand } from '../../container/agent-runner/src/ipc-writer.js';
+import { createMcpServer } from '../../container/agent-runner/src/mcp-server.js';
+import { OutboundQueue } from '../../container/agent-runner/src/outbox.js';
+import { OutputWriter } from '../../container/agent-runner/src/output.js';
+import { HostSnapshot } from '../../container/agent-runner/src/snapshot.js';
+import { writeTaskResult } from '../../container/agent-runner/src/task-result.js';
+
+const __dirname = fileURLToPath(new URL('.', import.meta.url));
+const IPC_PATH = path.resolve(__dirname, 'fixtures/ipc-protocol.md');
+
+type JsonRpcResponse = { id: number; result?: { content: Array<{ text: string }>; isError?: boolean }; error?: { message: string } };
+
+// Minimal in-process MCP transport: requests go straight to the server's onmessage
+class TestTransport {
+  onmessage?: (message: unknown) => void;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  private nextId = 1;
+  private pending = new Map<number, (response: JsonRpcResponse) => void>();
+
+  async start(): Promise<void> {}
+  async close(): Promise<void> {}
+
+  async send(message: unknown): Promise<void> {
+    const response = message as JsonRpcResponse;
+    this.pending.get(response.id)?.(response);
+    this.pending.delete(response.id);
+  }
+
+  request(method: string, params: Record<string, unknown>): Promise<JsonRpcResponse> {
+    const id = this.nextId++;
+    return new Promise((resolve) => {
+      this.pending.set(id, resolve);
+      this.onmessage?.({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  notify(method: string): void {
+    this.onmessage?.({ jsonrpc: '2.0', method });
+  }
+}
+
+// Everything written to tasks/, oldest first
+function writtenCommands(ipcDir: string): Array<Record<string, unknown>> {
+  const tasksDir = path.join(ipcDir, 'tasks');
+  if (!fs.existsSync(tasksDir)) return [];
+  return fs.readdirSync(tasksDir)
+    .filter((f) => f.endsWith('.json'))
+    .sort()
+    .map((f) => JSON.parse(fs.readFileSync(path.join(tasksDir, f), 'utf-8')));
+}
+
+// Acknowledges every request in tasks/ the way the host does
+function startFakeHost(ipcDir: string): () => void {
+  const answered = new Set<string>();
+  const timer = setInterval(() => {
+    for (const command of writtenCommands(ipcDir)) {
+      const requestId = command.request_id as string | undefined;
+      if (!requestId || answered.has(requestId)) continue;
+      answered.add(requestId);
+      const result = command.type === 'schedule_task' ? { task_id: 'task-1' } : {};
+      fs.mkdirSync(path.join(ipcDir, 'responses'), { recursive: true });
+      fs.writeFileSync(path.join(ipcDir, 'responses', `${requestId}.json`), JSON.stringify({ request_id: requestId, ok: true, result }));
+    }
+  }, 20);
+  return () => clearInterval(timer);
+}
+
+describe('IPC command schemas', () => {
+  let ipcDir: string;
+
+  beforeEach(() => {
+    ipcDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ipc-commands-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(ipcDir, { recursive: true, force: true });
+  });
+
+  describe('against ipc-protocol.md', () => {
+    const commands = parseIpcContract(IPC_PATH);
+
+    it('should list exactly the command types that have a schema', () => {
+      expect(commands.map((c) => c.type).sort()).toEqual(Object.keys(IPC_PAYLOAD_SCHEMAS).sort());
+    });
+
+    for (const cmd of commands) {
+      it(`should have a schema for ${cmd.type} with exactly the contract fields`, () => {
+        expect(Object.keys(IPC_PAYLOAD_SCHEMAS)).toContain(cmd.type);
+        expect(ipcPayloadFields(cmd.type as IpcCommandType).sort()).toEqual([...cmd.payloadFields].sort());
+      });
+    }
+  });
+
+  describe('writeIpcCommand', () => {
+    it('should stamp the protocol version', () => {
+      writeIpcCommand(ipcDir, { type: 'pause_task', payload: { task_id: 'abc' }, source_group: 'main' });
+
+      expect(writtenCommands(ipcDir)).toEqual([
+        { type: 'pause_task', payload: { task_id: 'abc' }, source_group: 'main', protocol_version: IPC_PROTOCOL_VERSION },
+      ]);
+    });
+
+    it('should reject an invalid payload before anything is written', () => {
+      expect(() => writeIpcCommand(ipcDir, {
+        type: 'schedule_task',
+        payload: { prompt: '', schedule_type: 'cron', schedule_value: '0 9 * * *', timezone: 'UTC', context_mode: 'group', chat_jid: 'x', extra: 1 },
+        source_group: 'main',
+      } as never)).toThrow(/schedule_task: payload\.prompt: .*; payload: Unrecognized key/);
+      expect(writtenCommands(ipcDir)).toEqual([]);
+    });
+
+    it('should reject a schedule type sent without its value', () => {
+      const result = validateIpcCommand({
+        type: 'update_task',
+        payload: { task_id: 'abc', schedule_type: 'cron' },
+        source_group: 'main',
+        protocol_version: IPC_PROTOCOL_VERSION,
+      });
+      expect(result).toEqual({ ok: false, error: 'update_task: payload: schedule_type and schedule_value must be sent together' });
+    });
+
+    it('should apply the host folder rule to register_group', () => {
+      const registerFolder = (folder: string) => validateIpcCommand({
+        type: 'register_group',
+        payload: { name: 'Family', folder, trigger: '@Andy', chat_jid: 'family@g.us' },
+        source_group: 'main',
+        protocol_version: IPC_PROTOCOL_VERSION,
+      });
+
+      expect(registerFolder('family')).toEqual({ ok: true });
+      expect(registerFolder('9_lives-club')).toEqual({ ok: true });
+      expect(registerFolder('a'.repeat(64))).toEqual({ ok: true });
+      expect(registerFolder('global')).toEqual({ ok: false, error: 'register_group: payload.folder: folder "global" is reserved' });
+      for (const folder of ['-', '_family', '-family', 'a'.repeat(65), '', 'fam ily']) {
+        expect(registerFolder(folder).ok).toBe(false);
+      }
+    });
+  });
+
+  describe('tool conformance', () => {
+    let stopHost: () => void;
+    let snapshot: HostSnapshot;
+    let transport: TestTransport;
+
+    beforeEach(async () => {
+      stopHost = startFakeHost(ipcDir);
+      snapshot = new HostSnapshot(ipcDir);
+      const server = createMcpServer({
+        groupFolder: 'main',
+        chatJid: 'chat@g.us',
+        ipcDir,
+        sessionsDir: path.join(ipcDir, 'sessions'),
+        isMain: true,
+        assistantName: 'Andy',
+        timezone: 'Europe/Berlin',
+        locale: 'en-US',
+        output: new OutputWriter(new PassThrough()),
+        outbox: new OutboundQueue(ipcDir, 'chat@g.us', 'main'),
+        messageTransport: 'ipc',
+        snapshot,
+      });
+      transport = new TestTransport();
+      await server.connect(transport);
+      await transport.request('initialize', {
+        protocolVersion: '2025-03-26',
+        capabilities: {},
+        clientInfo: { name: 'ipc-commands-test', version: '0.0.0' },
+      });
+      transport.notify('notifications/initialized');
+    });
+
+    afterEach(() => {
+      stopHost();
+      snapshot.close();
+    });
+
+    async function callTool(name: string, args: Record<string, unknown>): Promise<void> {
+      const response = await transport.request('tools/call', { name, arguments: args });
+      expect(response.error).toBeUndefined();
+      expect(response.result?.isError, response.result?.content[0]?.text).toBeFalsy();
+    }
+
+    it('should emit a schema-valid command from every command-sending tool', async () => {
+      await callTool('schedule_task', { prompt: 'Water the plants', schedule_type: 'cron', schedule_value: '0 9 * * *' });
+      await callTool('pause_task', { task_id: 'task-1' });
+      await callTool('resume_task', { task_id: 'task-1' });
+      await callTool('update_task', { task_id: 'task-1', prompt: 'Water the ferns', schedule_type: 'interval', schedule_value: '3600000' });
+      await callTool('run_task_now', { task_id: 'task-1' });
+      await callTool('cancel_task', { task_id: 'task-1' });
+      await callTool('register_group', { name: 'Family', folder: 'family', chat_jid: 'family@g.us' });
+      writeTaskResult(ipcDir, 'main', { task_id: 'task-1', status: 'success', summary: 'Done', duration_ms: 1200, notified: true });
+
+      const commands = writtenCommands(ipcDir);
+      for (const command of commands) {
+        expect(validateIpcCommand(command)).toEqual({ ok: true });
+      }
+      expect(commands.map((c) => c.type)).toEqual([
+        'schedule_task', 'pause_task', 'resume_task', 'update_task', 'run_task_now', 'cancel_task', 'register_group', 'task_result',
+      ]);
+    }, 30_000);
+
+    it('should surface a schema rejection as a tool error and drop its overlay', async () => {
+      const response = await transport.request('tools/call', {
+        name: 'register_group',
+        arguments: { name: 'Bad', folder: '../escape', chat_jid: 'bad@g.us' },
+      });
+
+      expect(response.result?.isError).toBe(true);
+      expect(response.result?.content[0]?.text).toContain('payload.folder');
+      expect(writtenCommands(ipcDir)).toEqual([]);
+      expect(snapshot.groups()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,299 @@
+// IpcInputWatcher: event delivery, _close handling, polling fallback, a latency
+// benchmark comparing fs.watch against the old poll-only behavior, batching of
+// follow-ups that queue up between queries, and claim/dead-letter handling.
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  claimIpcInput,
+  formatInputTurn,
+  IpcInputWatcher,
+  recoverIpcInput,
+  waitForInputTurn,
+  type IpcInputMessage,
+} from '../../container/agent-runner/src/ipc-input.js';
+
+// Writes a follow-up the way the host does: .tmp first, then rename into place
+function writeInput(dir: string, text: string, name = `${Date.now()}-${Math.random().toString(16).slice(2, 10)}`): void {
+  const tmpPath = path.join(dir, `.${name}.json.tmp`);
+  fs.writeFileSync(tmpPath, JSON.stringify({ sender_name: 'Alice', content: text }));
+  fs.renameSync(tmpPath, path.join(dir, `${name}.json`));
+}
+
+// Files left anywhere under the input directory, relative to it
+function remainingFiles(dir: string): string[] {
+  return (fs.readdirSync(dir, { recursive: true }) as string[])
+    .filter((f) => fs.statSync(path.join(dir, f)).isFile())
+    .sort();
+}
+
+// Backdates a file past the partial-write grace period
+function age(filePath: string): void {
+  const past = new Date(Date.now() - 60_000);
+  fs.utimesSync(filePath, past, past);
+}
+
+function drain(dir: string, seen?: Set<string>): IpcInputMessage[] {
+  const batch = claimIpcInput(dir, seen);
+  batch.ack();
+  return batch.messages;
+}
+
+// Resolves with the next delivery, accepting all of it
+function nextMessages(watcher: IpcInputWatcher): Promise<IpcInputMessage[]> {
+  return new Promise((resolve) => watcher.once('messages', (messages, accept) => {
+    accept();
+    resolve(messages);
+  }));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Latency from the rename to the 'messages' event, per message
+async function measureLatency(dir: string, watcher: IpcInputWatcher, samples: number): Promise<number[]> {
+  const latencies: number[] = [];
+  watcher.start();
+  for (let i = 0; i < samples; i++) {
+    // Stagger writes so they don't line up with the poll interval
+    await new Promise((r) => setTimeout(r, 20 + Math.random() * 80));
+    const received = nextMessages(watcher);
+    const start = performance.now();
+    writeInput(dir, `message ${i}`);
+    await received;
+    latencies.push(performance.now() - start);
+  }
+  watcher.stop();
+  return latencies;
+}
+
+describe('IpcInputWatcher', () => {
+  let inputDir: string;
+
+  beforeEach(() => {
+    inputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ipc-input-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(inputDir, { recursive: true, force: true });
+  });
+
+  it('should deliver messages already waiting when started', async () => {
+    writeInput(inputDir, 'first', '1-a');
+    writeInput(inputDir, 'second', '2-b');
+    const watcher = new IpcInputWatcher(inputDir);
+    const received = nextMessages(watcher);
+    watcher.start();
+
+    expect(await received).toEqual([
+      { sender: 'Alice', text: 'first', attachments: [] },
+      { sender: 'Alice', text: 'second', attachments: [] },
+    ]);
+    expect(remainingFiles(inputDir)).toEqual([]);
+    watcher.stop();
+  });
+
+  it('should deliver a message written while running', async () => {
+    const watcher = new IpcInputWatcher(inputDir);
+    watcher.start();
+    const received = nextMessages(watcher);
+    writeInput(inputDir, 'hello');
+
+    expect(await received).toEqual([{ sender: 'Alice', text: 'hello', attachments: [] }]);
+    watcher.stop();
+  });
+
+  it('should emit close and stop on the _close sentinel', async () => {
+    const watcher = new IpcInputWatcher(inputDir);
+    watcher.start();
+    const closed = new Promise<void>((resolve) => watcher.once('close', resolve));
+    fs.writeFileSync(path.join(inputDir, '_close'), '');
+
+    await closed;
+    expect(watcher.running).toBe(false);
+    expect(fs.existsSync(path.join(inputDir, '_close'))).toBe(false);
+  });
+
+  it('should not consume files while stopped', async () => {
+    const watcher = new IpcInputWatcher(inputDir);
+    watcher.start();
+    watcher.stop();
+    writeInput(inputDir, 'later', '3-c');
+    await new Promise((r) => setTimeout(r, 100));
+
+    expect(fs.readdirSync(inputDir)).toEqual(['3-c.json']);
+  });
+
+  it('should fall back to polling when fs.watch is disabled', async () => {
+    const watcher = new IpcInputWatcher(inputDir, { disableWatch: true, pollMs: 50 });
+    watcher.start();
+    const received = nextMessages(watcher);
+    writeInput(inputDir, 'polled');
+
+    expect(await received).toEqual([{ sender: 'Alice', text: 'polled', attachments: [] }]);
+    watcher.stop();
+  });
+
+  it('should deliver follow-ups sooner with fs.watch than with 500 ms polling', async () => {
+    const samples = 3;
+    const watched = await measureLatency(inputDir, new IpcInputWatcher(inputDir), samples);
+    const polled = await measureLatency(inputDir, new IpcInputWatcher(inputDir, { disableWatch: true, pollMs: 500 }), samples);
+
+    expect(median(watched)).toBeLessThan(median(polled));
+  }, 30_000);
+
+  describe('between-query batching', () => {
+    // Regression: waitForNextMessage used to return only messages[0] after
+    // drainIpcInput had already deleted every file, losing the rest.
+    it('should deliver every message queued while idle as one turn, in order', async () => {
+      writeInput(inputDir, 'Are we still on for Friday?', '1-a');
+      writeInput(inputDir, 'I can bring snacks', '2-b');
+      writeInput(inputDir, 'Also, what time?', '3-c');
+
+      const turn = await waitForInputTurn(new IpcInputWatcher(inputDir));
+
+      expect(turn).toBe([
+        '<context>',
+        '<msg sender="Alice">Are we still on for Friday?</msg>',
+        '<msg sender="Alice">I can bring snacks</msg>',
+        '<msg sender="Alice">Also, what time?</msg>',
+        '</context>',
+        'Respond to the above.',
+      ].join('\n'));
+      expect(remainingFiles(inputDir)).toEqual([]);
+    });
+
+    it('should return null on _close', async () => {
+      fs.writeFileSync(path.join(inputDir, '_close'), '');
+      expect(await waitForInputTurn(new IpcInputWatcher(inputDir))).toBeNull();
+    });
+
+    it('should leave messages in input/ when accepts() declines them', async () => {
+      writeInput(inputDir, 'one too many', '1-a');
+
+      expect(await waitForInputTurn(new IpcInputWatcher(inputDir), () => false, () => false)).toBeNull();
+      expect(remainingFiles(inputDir)).toEqual(['1-a.json']);
+    });
+
+    it('should return null once stopped() turns true', async () => {
+      let stopped = false;
+      setTimeout(() => { stopped = true; }, 50);
+      expect(await waitForInputTurn(new IpcInputWatcher(inputDir), () => stopped)).toBeNull();
+    });
+
+    it('should escape senders and text and keep attachments in order', () => {
+      const turn = formatInputTurn([
+        { sender: 'Bob "B"', text: 'a < b & c', attachments: [] },
+        { sender: 'Carol', text: 'see photo', attachments: [{ path: '/nonexistent/receipt.jpg', mime_type: 'image/jpeg' }] },
+      ]);
+
+      expect(Array.isArray(turn)).toBe(true);
+      const blocks = turn as Array<{ type: string; text?: string }>;
+      expect(blocks[0].text).toContain('<msg sender="Bob &quot;B&quot;">a &lt; b &amp; c</msg>');
+      expect(blocks[0].text).toContain('<msg sender="Carol" attachments="receipt.jpg">see photo</msg>');
+      expect(blocks.length).toBeGreaterThan(1);
+    });
+  });
+
+  describe('claiming and dead letters', () => {
+    it('should keep claimed files in processing/ until acknowledged', () => {
+      writeInput(inputDir, 'hello', '1-a');
+      const batch = claimIpcInput(inputDir);
+
+      expect(batch.messages).toHaveLength(1);
+      expect(remainingFiles(inputDir)).toEqual([path.join('processing', '1-a.json')]);
+      batch.ack();
+      expect(remainingFiles(inputDir)).toEqual([]);
+    });
+
+    it('should redeliver unacknowledged files after a crash', async () => {
+      writeInput(inputDir, 'before the crash', '1-a');
+      claimIpcInput(inputDir); // never acknowledged
+
+      expect(recoverIpcInput(inputDir)).toBe(1);
+      const watcher = new IpcInputWatcher(inputDir);
+      const received = nextMessages(watcher);
+      watcher.start();
+
+      expect(await received).toEqual([{ sender: 'Alice', text: 'before the crash', attachments: [] }]);
+      watcher.stop();
+    });
+
+    it('should move malformed and empty messages to failed/ with an error note', () => {
+      fs.writeFileSync(path.join(inputDir, '1-a.json'), '{"content": "trunc');
+      fs.writeFileSync(path.join(inputDir, '2-b.json'), JSON.stringify({ sender_name: 'Alice' }));
+      fs.writeFileSync(path.join(inputDir, '3-c.txt'), 'not a message');
+      for (const f of ['1-a.json', '2-b.json', '3-c.txt']) age(path.join(inputDir, f));
+      writeInput(inputDir, 'still delivered', '4-d');
+
+      expect(drain(inputDir)).toEqual([{ sender: 'Alice', text: 'still delivered', attachments: [] }]);
+      expect(remainingFiles(inputDir)).toEqual([
+        path.join('failed', '1-a.json'),
+        path.join('failed', '1-a.json.error.txt'),
+        path.join('failed', '2-b.json'),
+        path.join('failed', '2-b.json.error.txt'),
+        path.join('failed', '3-c.txt'),
+        path.join('failed', '3-c.txt.error.txt'),
+      ]);
+      expect(fs.readFileSync(path.join(inputDir, 'failed', '1-a.json.error.txt'), 'utf-8')).toContain('Invalid JSON');
+    });
+
+    it('should leave .tmp files, dotfiles and just-written partial files alone', () => {
+      fs.writeFileSync(path.join(inputDir, '.1-a.json.tmp'), '{"content": "hal');
+      fs.writeFileSync(path.join(inputDir, '.hidden'), '');
+      fs.writeFileSync(path.join(inputDir, '2-b.json'), '{"content": "hal');
+
+      expect(drain(inputDir)).toEqual([]);
+      expect(remainingFiles(inputDir)).toEqual(['.1-a.json.tmp', '.hidden', '2-b.json']);
+    });
+
+    it('should drop a message whose id was already delivered', () => {
+      const seen = new Set<string>();
+      fs.writeFileSync(path.join(inputDir, '1-a.json'), JSON.stringify({ id: 'msg-1', sender_name: 'Alice', content: 'hi' }));
+      expect(drain(inputDir, seen)).toHaveLength(1);
+
+      // The host retried the same message under a new file name
+      fs.writeFileSync(path.join(inputDir, '2-b.json'), JSON.stringify({ id: 'msg-1', sender_name: 'Alice', content: 'hi' }));
+      expect(drain(inputDir, seen)).toEqual([]);
+      expect(remainingFiles(inputDir)).toEqual([]);
+    });
+
+    it('should return declined messages to input/ and offer them again', async () => {
+      writeInput(inputDir, 'first', '1-a');
+      writeInput(inputDir, 'second', '2-b');
+      const watcher = new IpcInputWatcher(inputDir);
+      const declined = new Promise<void>((resolve) => watcher.once('messages', () => {
+        watcher.stop();
+        resolve();
+      }));
+      watcher.start();
+      await declined;
+
+      expect(remainingFiles(inputDir)).toEqual(['1-a.json', '2-b.json']);
+
+      const received = nextMessages(watcher);
+      watcher.start();
+      expect((await received).map((m) => m.text)).toEqual(['first', 'second']);
+      expect(remainingFiles(inputDir)).toEqual([]);
+      watcher.stop();
+    });
+
+    it('should acknowledge only the accepted prefix of a batch', () => {
+      writeInput(inputDir, 'first', '1-a');
+      writeInput(inputDir, 'second', '2-b');
+      const seen = new Set<string>();
+      const batch = claimIpcInput(inputDir, seen);
+
+      batch.ack(1);
+      batch.release();
+
+      expect(remainingFiles(inputDir)).toEqual(['2-b.json']);
+      expect([...seen]).toEqual(['1-a']);
+      expect(drain(inputDir, seen).map((m) => m.text)).toEqual(['second']);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+// IPC writer: atomic, redacted files, and the request/response channel between
+// tasks/ and responses/ with its timeout and unreadable-response handling.
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { sendIpcRequest, waitForIpcResponse, writeIpcFile } from '../../container/agent-runner/src/ipc-writer.js';
+import { configureRedaction } from '../../container/agent-runner/src/redact.js';
+
+describe('IPC writer', () => {
+  let ipcDir: string;
+
+  beforeEach(() => {
+    ipcDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ipc-writer-test-'));
+    configureRedaction({});
+  });
+
+  afterEach(() => {
+    fs.rmSync(ipcDir, { recursive: true, force: true });
+  });
+
+  function writeResponse(requestId: string, body: string): void {
+    fs.mkdirSync(path.join(ipcDir, 'responses'), { recursive: true });
+    fs.writeFileSync(path.join(ipcDir, 'responses', `${requestId}.json`), body);
+  }
+
+  it('should write redacted JSON without leaving temp files', () => {
+    configureRedaction({ TOKEN: 'hunter2hunter2' });
+
+    const file = writeIpcFile(path.join(ipcDir, 'tasks'), { text: 'key hunter2hunter2', nested: ['hunter2hunter2'] });
+
+    expect(file).toMatch(/\/tasks\/\d+-[0-9a-f]{8}\.json$/);
+    expect(JSON.parse(fs.readFileSync(file, 'utf-8'))).toEqual({ text: 'key [REDACTED]', nested: ['[REDACTED]'] });
+    expect(fs.readdirSync(path.join(ipcDir, 'tasks'))).toEqual([path.basename(file)]);
+  });
+
+  it('should send a request and resolve with the host response, consuming it', async () => {
+    const pending = sendIpcRequest(ipcDir, { type: 'pause_task', payload: { task_id: 't1' }, source_group: 'main' }, 5_000);
+
+    const [file] = fs.readdirSync(path.join(ipcDir, 'tasks'));
+    const command = JSON.parse(fs.readFileSync(path.join(ipcDir, 'tasks', file), 'utf-8'));
+    expect(command).toMatchObject({ type: 'pause_task', request_id: expect.any(String), protocol_version: 1 });
+    writeResponse(command.request_id, JSON.stringify({ request_id: command.request_id, ok: true, result: { task_id: 't1' } }));
+
+    expect(await pending).toEqual({ request_id: command.request_id, ok: true, result: { task_id: 't1' } });
+    expect(fs.readdirSync(path.join(ipcDir, 'responses'))).toEqual([]);
+  });
+
+  it('should resolve null when the host does not answer in time', async () => {
+    expect(await waitForIpcResponse(ipcDir, 'never', 300)).toBeNull();
+  });
+
+  it('should turn an unreadable response into a failed one', async () => {
+    writeResponse('r1', '{ not json');
+
+    const response = await waitForIpcResponse(ipcDir, 'r1', 1_000);
+
+    expect(response).toEqual({ request_id: 'r1', ok: false, error: expect.stringMatching(/^Unreadable host response: /) });
+    expect(fs.existsSync(path.join(ipcDir, 'responses', 'r1.json'))).toBe(false);
+  });
+});
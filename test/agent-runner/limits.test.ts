@@ -0,0 +1,84 @@
+// Run limits: which ceiling trips, at what point, and the tool-call hook's boundary.
+
+import { describe, it, expect, vi } from 'vitest';
+import { checkLimits, createToolCallLimitHook, type LimitBreach } from '../../container/agent-runner/src/limits.js';
+import type { SessionUsage } from '../../container/agent-runner/src/usage.js';
+
+function usage(overrides: { tokens?: number; costUsd?: number; wallTimeMs?: number; toolCalls?: number } = {}): SessionUsage {
+  return {
+    groupFolder: 'main',
+    isScheduledTask: false,
+    startedAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    wallTimeMs: overrides.wallTimeMs ?? 0,
+    totals: {
+      inputTokens: overrides.tokens ?? 0,
+      outputTokens: 0,
+      cacheReadInputTokens: 0,
+      cacheCreationInputTokens: 0,
+      costUsd: overrides.costUsd ?? 0,
+      durationMs: 0,
+    },
+    toolCalls: overrides.toolCalls ?? 0,
+    redactions: 0,
+    turns: [],
+  };
+}
+
+describe('checkLimits', () => {
+  it('should never trip without limits', () => {
+    expect(checkLimits(undefined, usage({ tokens: 1e9, toolCalls: 1e6 }), 1000)).toBeNull();
+  });
+
+  it('should allow maxTurns turns and trip on the next one', () => {
+    expect(checkLimits({ maxTurns: 3 }, usage(), 3)).toBeNull();
+    expect(checkLimits({ maxTurns: 3 }, usage(), 4)?.limit).toBe('maxTurns');
+  });
+
+  it('should trip once tokens, cost or wall time reach their ceiling', () => {
+    expect(checkLimits({ maxTokens: 1000 }, usage({ tokens: 999 }), 1)).toBeNull();
+    expect(checkLimits({ maxTokens: 1000 }, usage({ tokens: 1000 }), 1)?.limit).toBe('maxTokens');
+    expect(checkLimits({ maxCostUsd: 0.5 }, usage({ costUsd: 0.5 }), 1)?.message).toContain('$0.50');
+    expect(checkLimits({ maxWallClockSeconds: 60 }, usage({ wallTimeMs: 60_000 }), 1)?.limit).toBe('maxWallClockSeconds');
+  });
+
+  it('should leave maxToolCalls to the PreToolUse hook', () => {
+    expect(checkLimits({ maxToolCalls: 2 }, usage({ toolCalls: 5 }), 1)).toBeNull();
+  });
+
+  it('should report the first limit in order when several are exceeded', () => {
+    expect(checkLimits({ maxTurns: 1, maxTokens: 10 }, usage({ tokens: 100 }), 2)?.limit).toBe('maxTurns');
+  });
+});
+
+describe('createToolCallLimitHook', () => {
+  const callTool = (hook: ReturnType<typeof createToolCallLimitHook>) => hook(
+    { hook_event_name: 'PreToolUse', tool_name: 'Bash', tool_input: { command: 'ls' }, session_id: 's', transcript_path: '', cwd: '/' } as never,
+    undefined,
+    { signal: new AbortController().signal },
+  );
+
+  it('should let exactly maxToolCalls calls run and deny the next ones', async () => {
+    const breaches: LimitBreach[] = [];
+    const hook = createToolCallLimitHook({ maxToolCalls: 2 }, (breach) => breaches.push(breach));
+
+    expect(await callTool(hook)).toEqual({});
+    expect(await callTool(hook)).toEqual({});
+    expect(breaches).toHaveLength(0);
+
+    const denied = await callTool(hook);
+    expect(denied).toMatchObject({ hookSpecificOutput: { permissionDecision: 'deny' } });
+    expect(await callTool(hook)).toMatchObject({ hookSpecificOutput: { permissionDecision: 'deny' } });
+    expect(breaches).toEqual([{
+      limit: 'maxToolCalls',
+      message: "This session reached its limit of 2 tool calls, so I've stopped here.",
+    }]);
+  });
+
+  it('should allow every call without a tool-call limit', async () => {
+    const onLimit = vi.fn();
+    const hook = createToolCallLimitHook({ maxTurns: 1 }, onLimit);
+    for (let i = 0; i < 5; i++) expect(await callTool(hook)).toEqual({});
+    expect(onLimit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,131 @@
+// Long-term memory: remembering with de-duplication and redaction, forgetting,
+// recall ranking, and the selection injected into the system prompt.
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  forgetMemory,
+  formatMemory,
+  loadMemories,
+  recallMemories,
+  rememberMemory,
+  selectPromptMemories,
+} from '../../container/agent-runner/src/memory.js';
+import { configureRedaction } from '../../container/agent-runner/src/redact.js';
+
+describe('memory', () => {
+  let dir: string;
+  let memoryPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-test-'));
+    memoryPath = path.join(dir, 'memory.json');
+    configureRedaction({});
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should save a memory with normalized tags', () => {
+    const { memory, updated } = rememberMemory('  Alice is vegetarian ', { tags: [' Alice', 'FOOD', ''] }, memoryPath);
+
+    expect(updated).toBe(false);
+    expect(memory).toEqual({
+      id: expect.stringMatching(/^m-[0-9a-f]{6}$/),
+      text: 'Alice is vegetarian',
+      tags: ['alice', 'food'],
+      pinned: false,
+      created_at: expect.any(String),
+      updated_at: expect.any(String),
+    });
+    expect(loadMemories(memoryPath)).toEqual([memory]);
+  });
+
+  it('should merge tags and overwrite pinned when the same text is remembered again', () => {
+    const first = rememberMemory('Deploy window is Thursday', { tags: ['ops'] }, memoryPath).memory;
+
+    const again = rememberMemory('deploy  window is thursday', { tags: ['deploys', 'ops'], pinned: true }, memoryPath);
+
+    expect(again.updated).toBe(true);
+    expect(again.memory).toMatchObject({ id: first.id, text: 'Deploy window is Thursday', tags: ['ops', 'deploys'], pinned: true });
+    expect(loadMemories(memoryPath)).toHaveLength(1);
+  });
+
+  it('should redact secrets before saving', () => {
+    configureRedaction({ TOKEN: 'hunter2hunter2' });
+
+    rememberMemory('The wifi password is hunter2hunter2', {}, memoryPath);
+
+    expect(fs.readFileSync(memoryPath, 'utf-8')).not.toContain('hunter2hunter2');
+  });
+
+  it('should forget by id and report unknown ids', () => {
+    const { memory } = rememberMemory('Bob prefers email', {}, memoryPath);
+
+    expect(forgetMemory('m-000000', memoryPath)).toBeNull();
+    expect(forgetMemory(memory.id, memoryPath)).toEqual(memory);
+    expect(loadMemories(memoryPath)).toEqual([]);
+  });
+
+  it('should recall by text and tags, best match first', () => {
+    rememberMemory('Alice is vegetarian', { tags: ['food'] }, memoryPath);
+    rememberMemory('Order food from the Thai place on Fridays', { tags: ['food', 'friday'] }, memoryPath);
+    rememberMemory('Bob plays tennis', {}, memoryPath);
+
+    expect(recallMemories('friday food', 10, memoryPath).map((m) => m.text)).toEqual([
+      'Order food from the Thai place on Fridays',
+      'Alice is vegetarian',
+    ]);
+    expect(recallMemories('the', 10, memoryPath)).toEqual([]);
+  });
+
+  it('should select pinned memories first, then relevant ones, within the size budget', () => {
+    rememberMemory('Bob plays tennis', {}, memoryPath);
+    rememberMemory('Always answer in English', { pinned: true }, memoryPath);
+    rememberMemory(`Tennis club notes ${'x'.repeat(2_000)}`, {}, memoryPath);
+
+    expect(selectPromptMemories('tennis on Sunday?', memoryPath).map((m) => m.text)).toEqual([
+      'Always answer in English',
+      'Bob plays tennis',
+    ]);
+  });
+
+  it('should normalize hand-edited entries and drop ones without id or text', () => {
+    fs.writeFileSync(memoryPath, JSON.stringify([
+      { id: 'm-1', text: 'Carol likes jazz', pinned: 'yes' },
+      { id: 'm-2', text: 'Dave runs', tags: ['sport', 3], pinned: true, created_at: '2026-01-01T00:00:00.000Z' },
+      { text: 'no id' },
+      null,
+    ]));
+
+    expect(loadMemories(memoryPath)).toEqual([
+      { id: 'm-1', text: 'Carol likes jazz', tags: [], pinned: false, created_at: '', updated_at: '' },
+      { id: 'm-2', text: 'Dave runs', tags: ['sport'], pinned: true, created_at: '2026-01-01T00:00:00.000Z', updated_at: '2026-01-01T00:00:00.000Z' },
+    ]);
+    expect(selectPromptMemories('jazz', memoryPath).map((m) => m.id)).toEqual(['m-2', 'm-1']);
+  });
+
+  it('should move a malformed store aside instead of overwriting it', () => {
+    fs.writeFileSync(memoryPath, '[{"id": "m-1", "text": "Alice is vegetarian"');
+
+    expect(loadMemories(memoryPath)).toEqual([]);
+    expect(forgetMemory('m-1', memoryPath)).toBeNull();
+    expect(fs.readdirSync(dir)).toEqual(['memory.json']);
+
+    const { memory } = rememberMemory('Bob plays tennis', {}, memoryPath);
+
+    const aside = fs.readdirSync(dir).filter((f) => f.startsWith('memory.json.corrupt-'));
+    expect(aside).toHaveLength(1);
+    expect(fs.readFileSync(path.join(dir, aside[0]), 'utf-8')).toBe('[{"id": "m-1", "text": "Alice is vegetarian"');
+    expect(loadMemories(memoryPath)).toEqual([memory]);
+  });
+
+  it('should format one line per memory', () => {
+    const { memory } = rememberMemory('Alice is vegetarian', { tags: ['alice', 'food'], pinned: true }, memoryPath);
+
+    expect(formatMemory(memory)).toBe(`- [${memory.id}] Alice is vegetarian (alice, food) [pinned]`);
+  });
+});
@@ -0,0 +1,83 @@
+// OutboundQueue: atomic message files in ipc/{group}/messages/, sequence numbers
+// and file order that match send order, including under concurrent senders.
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { OutboundQueue } from '../../container/agent-runner/src/outbox.js';
+import { stageOutboundFile } from '../../container/agent-runner/src/attachments.js';
+
+// Message files in the order a host delivers them (lexical filename order)
+function queuedMessages(ipcDir: string): Array<Record<string, unknown>> {
+  const messagesDir = path.join(ipcDir, 'messages');
+  return fs.readdirSync(messagesDir)
+    .filter((f) => f.endsWith('.json'))
+    .sort()
+    .map((f) => JSON.parse(fs.readFileSync(path.join(messagesDir, f), 'utf-8')));
+}
+
+describe('OutboundQueue', () => {
+  let ipcDir: string;
+
+  beforeEach(() => {
+    ipcDir = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(ipcDir, { recursive: true, force: true });
+  });
+
+  it('should write a message file with chat_jid, sender and seq', () => {
+    const outbox = new OutboundQueue(ipcDir, 'chat@g.us', 'main');
+    outbox.sendText('On it!', 'Researcher');
+
+    expect(queuedMessages(ipcDir)).toEqual([{
+      type: 'message',
+      chat_jid: 'chat@g.us',
+      text: 'On it!',
+      sender: 'Researcher',
+      source_group: 'main',
+      seq: 1,
+      timestamp: expect.any(String),
+    }]);
+  });
+
+  it('should keep send order under concurrent senders', async () => {
+    const outbox = new OutboundQueue(ipcDir, 'chat@g.us', 'main');
+    const sent: string[] = [];
+
+    // 50 tool calls racing each other, each sending after a random delay
+    await Promise.all(Array.from({ length: 50 }, async (_, i) => {
+      await new Promise((r) => setTimeout(r, Math.random() * 30));
+      outbox.sendText(`message ${i}`);
+      sent.push(`message ${i}`);
+    }));
+
+    const messages = queuedMessages(ipcDir);
+    expect(messages.map((m) => m.seq)).toEqual(Array.from({ length: 50 }, (_, i) => i + 1));
+    expect(messages.map((m) => m.text)).toEqual(sent);
+    expect(fs.readdirSync(path.join(ipcDir, 'messages')).filter((f) => !f.endsWith('.json'))).toEqual([]);
+  });
+
+  it('should number text and file messages in one sequence', () => {
+    const outbox = new OutboundQueue(ipcDir, 'chat@g.us', 'main');
+    const chart = path.join(fs.mkdtempSync('/tmp/outbox-file-'), 'chart.png');
+    fs.writeFileSync(chart, 'png');
+
+    outbox.sendText("Here's the chart:");
+    stageOutboundFile(outbox, chart, { caption: 'Weekly sales' });
+    outbox.sendText('Anything else?');
+
+    expect(queuedMessages(ipcDir).map((m) => [m.seq, m.type])).toEqual([[1, 'message'], [2, 'file'], [3, 'message']]);
+    fs.rmSync(path.dirname(chart), { recursive: true });
+  });
+
+  it('should sort a later run after an earlier one', async () => {
+    new OutboundQueue(ipcDir, 'chat@g.us', 'main').sendText('first run');
+    await new Promise((r) => setTimeout(r, 5));
+    new OutboundQueue(ipcDir, 'chat@g.us', 'main').sendText('second run');
+
+    expect(queuedMessages(ipcDir).map((m) => m.text)).toEqual(['first run', 'second run']);
+  });
+});
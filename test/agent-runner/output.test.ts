@@ -0,0 +1,79 @@
+// OutputWriter: sentinel framing in the text and JSON formats, envelope fields,
+// and redaction of everything written.
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PassThrough } from 'node:stream';
+import {
+  OUTPUT_END_MARKER,
+  OUTPUT_ENVELOPE_VERSION,
+  OUTPUT_START_MARKER,
+  OutputWriter,
+  type OutputFormat,
+} from '../../container/agent-runner/src/output.js';
+import { configureRedaction } from '../../container/agent-runner/src/redact.js';
+
+function capture(format?: OutputFormat): { writer: OutputWriter; blocks: () => string[] } {
+  const stream = new PassThrough();
+  const chunks: string[] = [];
+  stream.on('data', (chunk: Buffer) => chunks.push(chunk.toString()));
+  const writer = new OutputWriter(stream, format);
+  // Bodies between each pair of sentinels
+  const blocks = () => [...chunks.join('').matchAll(new RegExp(`${OUTPUT_START_MARKER}\\n([\\s\\S]*?)\\n${OUTPUT_END_MARKER}`, 'g'))].map((m) => m[1]);
+  return { writer, blocks };
+}
+
+describe('OutputWriter', () => {
+  beforeEach(() => {
+    configureRedaction({});
+  });
+
+  it('should frame raw text between the sentinels by default', () => {
+    const stream = new PassThrough();
+    let written = '';
+    stream.on('data', (chunk: Buffer) => { written += chunk.toString(); });
+
+    new OutputWriter(stream).write('result', 'Hello\nworld');
+
+    expect(written).toBe(`\n${OUTPUT_START_MARKER}\nHello\nworld\n${OUTPUT_END_MARKER}\n`);
+  });
+
+  it('should write a JSON envelope with the session, turn and usage', () => {
+    const { writer, blocks } = capture('json');
+    writer.sessionId = 'session-1';
+    writer.turn = 2;
+    const usage = { inputTokens: 10, outputTokens: 5, cacheReadInputTokens: 0, cacheCreationInputTokens: 0, costUsd: 0.01, durationMs: 900 };
+
+    writer.write('result', 'Done', { sender: 'Researcher', usage });
+
+    expect(JSON.parse(blocks()[0])).toEqual({
+      version: OUTPUT_ENVELOPE_VERSION,
+      kind: 'result',
+      text: 'Done',
+      sender: 'Researcher',
+      sessionId: 'session-1',
+      turn: 2,
+      timestamp: expect.any(String),
+      usage,
+    });
+  });
+
+  it('should omit unset envelope fields', () => {
+    const { writer, blocks } = capture('json');
+
+    writer.write('notice', 'Limit reached');
+
+    expect(Object.keys(JSON.parse(blocks()[0]))).toEqual(['version', 'kind', 'text', 'timestamp']);
+  });
+
+  it('should redact secrets from the text and sender in both formats', () => {
+    configureRedaction({ TOKEN: 'hunter2hunter2' });
+    const text = capture('text');
+    const json = capture('json');
+
+    text.writer.write('result', 'token is hunter2hunter2');
+    json.writer.write('progress', 'token is hunter2hunter2', { sender: 'hunter2hunter2' });
+
+    expect(text.blocks()).toEqual(['token is [REDACTED]']);
+    expect(JSON.parse(json.blocks()[0])).toMatchObject({ text: 'token is [REDACTED]', sender: '[REDACTED]' });
+  });
+});
@@ -0,0 +1,71 @@
+// Personality: file-by-file group overrides of the global defaults, templating,
+// and fitting the sections to the size budget.
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { loadPersonality, renderTemplate, type PersonalityVariables } from '../../container/agent-runner/src/personality.js';
+
+const VARIABLES: PersonalityVariables = {
+  assistantName: 'Andy',
+  groupFolder: 'family',
+  date: '2026-10-19',
+  timezone: 'Europe/Berlin',
+};
+
+describe('personality', () => {
+  let globalDir: string;
+  let groupDir: string;
+
+  beforeEach(() => {
+    globalDir = fs.mkdtempSync(path.join(os.tmpdir(), 'personality-global-'));
+    groupDir = fs.mkdtempSync(path.join(os.tmpdir(), 'personality-group-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(globalDir, { recursive: true, force: true });
+    fs.rmSync(groupDir, { recursive: true, force: true });
+  });
+
+  it('should fill known placeholders and leave unknown ones as written', () => {
+    expect(renderTemplate('I am {{ assistantName }} in {{groupFolder}} on {{date}} ({{timezone}}), {{mood}}', VARIABLES))
+      .toBe('I am Andy in family on 2026-10-19 (Europe/Berlin), {{mood}}');
+    expect(renderTemplate('{{constructor}}', VARIABLES)).toBe('{{constructor}}');
+  });
+
+  it('should let group files replace global ones file by file, in a fixed order', () => {
+    fs.writeFileSync(path.join(globalDir, 'STYLE.md'), 'Global style');
+    fs.writeFileSync(path.join(globalDir, 'IDENTITY.md'), 'Global identity for {{assistantName}}');
+    fs.writeFileSync(path.join(globalDir, 'RULES.md'), 'Global rules');
+    fs.writeFileSync(path.join(groupDir, 'RULES.md'), '\nFamily rules\n');
+    fs.writeFileSync(path.join(groupDir, 'NOTES.md'), 'Not a personality file');
+
+    expect(loadPersonality(VARIABLES, { globalDir, groupDir })).toEqual([
+      'Global identity for Andy',
+      'Family rules',
+      'Global style',
+    ]);
+  });
+
+  it('should fall back to the global file when the group copy is empty', () => {
+    fs.writeFileSync(path.join(globalDir, 'SOUL.md'), 'Global soul');
+    fs.writeFileSync(path.join(groupDir, 'SOUL.md'), '   \n');
+
+    expect(loadPersonality(VARIABLES, { globalDir, groupDir })).toEqual(['Global soul']);
+  });
+
+  it('should truncate at a line boundary and drop later files once the budget is spent', () => {
+    fs.writeFileSync(path.join(globalDir, 'IDENTITY.md'), 'Identity');
+    fs.writeFileSync(path.join(globalDir, 'SOUL.md'), `${'a'.repeat(40)}\n${'b'.repeat(40)}\n${'c'.repeat(40)}`);
+    fs.writeFileSync(path.join(globalDir, 'RULES.md'), 'Rules');
+
+    const sections = loadPersonality(VARIABLES, { globalDir, groupDir, budgetChars: 100 });
+
+    expect(sections).toEqual([
+      'Identity',
+      `${'a'.repeat(40)}\n\n[…truncated to fit the personality size budget]`,
+    ]);
+    expect(sections.join('').length).toBeLessThanOrEqual(100);
+  });
+});
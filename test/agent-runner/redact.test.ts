@@ -0,0 +1,54 @@
+// Redaction: secret values, built-in credential formats, host patterns and
+// their prefix handling, and invalid host patterns.
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { configureRedaction, redact, redactDeep, redactionCount } from '../../container/agent-runner/src/redact.js';
+
+describe('redact', () => {
+  beforeEach(() => {
+    configureRedaction({});
+  });
+
+  it('should replace secret values, longest first, and ignore short ones', () => {
+    configureRedaction({ TOKEN: 'abcdefgh', LONG: 'abcdefgh-extended', FLAG: 'true' });
+
+    expect(redact('a abcdefgh-extended b abcdefgh c true')).toBe('a [REDACTED] b [REDACTED] c true');
+  });
+
+  it('should redact built-in credential formats and keep a named prefix', () => {
+    expect(redact('key sk-ant-REDACTED here')).toBe('key [REDACTED] here');
+    expect(redact(`aws_secret_access_key = ${'A'.repeat(40)}`)).toBe('aws_secret_access_key = [REDACTED]');
+  });
+
+  it('should redact the whole match of a host pattern, including capture groups', () => {
+    configureRedaction({}, ['password=(\\S+)']);
+
+    expect(redact('login password=hunter2hunter2 ok')).toBe('login [REDACTED] ok');
+  });
+
+  it('should keep a host pattern\'s named prefix group', () => {
+    configureRedaction({}, ['(?<prefix>password=)\\S+']);
+
+    expect(redact('login password=hunter2hunter2 ok')).toBe('login password=[REDACTED] ok');
+  });
+
+  it('should skip and report invalid host patterns instead of throwing', () => {
+    const errors = configureRedaction({}, ['(unclosed', 'pin-\\d{4}', 42]);
+
+    expect(errors).toEqual([
+      expect.stringMatching(/^Skipping invalid redact pattern "\(unclosed": Invalid regular expression/),
+      'Skipping invalid redact pattern 42: not a string',
+    ]);
+    expect(redact('pin-1234')).toBe('[REDACTED]');
+    expect(configureRedaction({}, 'pin-\\d{4}')).toEqual(['Ignoring redactPatterns: not an array']);
+  });
+
+  it('should redact nested strings and count every replacement', () => {
+    configureRedaction({ TOKEN: 'secret-value-1' });
+    const before = redactionCount();
+
+    expect(redactDeep({ text: 'secret-value-1', list: ['x secret-value-1', 3], nested: { ok: true } }))
+      .toEqual({ text: '[REDACTED]', list: ['x [REDACTED]', 3], nested: { ok: true } });
+    expect(redactionCount() - before).toBe(2);
+  });
+});
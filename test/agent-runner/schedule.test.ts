@@ -0,0 +1,56 @@
+// Schedule validation: cron, interval bounds and one-time schedules, with the
+// next-run preview returned to the model.
+
+import { describe, it, expect } from 'vitest';
+import { MAX_INTERVAL_MS, validateSchedule } from '../../container/agent-runner/src/schedule.js';
+
+// Monday 2026-10-19 10:00 in Berlin (UTC+02:00)
+const NOW = new Date('2026-10-19T08:00:00.000Z');
+
+describe('validateSchedule', () => {
+  it('should preview the next cron runs in the group timezone', () => {
+    const result = validateSchedule('cron', '0 9 * * *', 'Europe/Berlin', NOW);
+
+    expect(result.ok && result.nextRuns.map((d) => d.toISOString())).toEqual([
+      '2026-10-20T07:00:00.000Z', '2026-10-21T07:00:00.000Z', '2026-10-22T07:00:00.000Z',
+    ]);
+  });
+
+  it('should reject cron expressions without five fields', () => {
+    const result = validateSchedule('cron', '0 9 * *', 'UTC', NOW);
+
+    expect(result.ok === false && result.error).toMatch(/expected five fields/);
+  });
+
+  it('should accept intervals between one minute and one year', () => {
+    expect(validateSchedule('interval', '3600000', 'UTC', NOW)).toEqual({
+      ok: true,
+      value: '3600000',
+      nextRuns: [new Date('2026-10-19T09:00:00.000Z'), new Date('2026-10-19T10:00:00.000Z'), new Date('2026-10-19T11:00:00.000Z')],
+    });
+    expect(validateSchedule('interval', String(MAX_INTERVAL_MS), 'UTC', NOW).ok).toBe(true);
+  });
+
+  it('should reject intervals that are too short, too long or not whole numbers', () => {
+    const error = (value: string) => {
+      const result = validateSchedule('interval', value, 'UTC', NOW);
+      return result.ok ? null : result.error;
+    };
+
+    expect(error('59999')).toMatch(/too short/);
+    expect(error(String(MAX_INTERVAL_MS + 1))).toMatch(/too long/);
+    // Would make new Date() invalid and throw a RangeError in toISOString
+    expect(error('9'.repeat(30))).toMatch(/too long/);
+    expect(error('1.5e6')).toMatch(/expected a whole number/);
+  });
+
+  it('should resolve once schedules to UTC and reject past or impossible times', () => {
+    expect(validateSchedule('once', '2026-10-20T09:00', 'Europe/Berlin', NOW)).toEqual({
+      ok: true,
+      value: '2026-10-20T07:00:00.000Z',
+      nextRuns: [new Date('2026-10-20T07:00:00.000Z')],
+    });
+    expect(validateSchedule('once', '2026-10-18T09:00', 'Europe/Berlin', NOW)).toMatchObject({ ok: false, error: expect.stringMatching(/in the past/) });
+    expect(validateSchedule('once', '2027-02-31T09:00', 'Europe/Berlin', NOW)).toMatchObject({ ok: false, error: expect.stringMatching(/Could not understand/) });
+  });
+});
@@ -0,0 +1,86 @@
+// History search: tokenizing, keyword and BM25 scoring, snippets, and the
+// transcript search and read helpers behind search_history/read_conversation.
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { bm25Scores, keywordScore, snippets, tokenize } from '../../container/agent-runner/src/search.js';
+import {
+  listTranscripts,
+  readTranscript,
+  searchTranscripts,
+  transcriptDate,
+} from '../../container/agent-runner/src/transcript.js';
+
+describe('search', () => {
+  it('should tokenize to lowercase words without stopwords or single characters', () => {
+    expect(tokenize("What's the Berlin budget for Q3? I'd say €2k, x")).toEqual(["what's", 'berlin', 'budget', 'q3', "i'd", 'say', '2k']);
+  });
+
+  it('should count query terms in keyword mode', () => {
+    expect(keywordScore(['berlin', 'hotel'], 'Berlin hotels; Berlin hostel')).toBe(2);
+    expect(keywordScore(['paris'], 'Berlin')).toBe(0);
+  });
+
+  it('should rank rarer terms and shorter documents higher with BM25', () => {
+    const scores = bm25Scores(['berlin', 'budget'], [
+      'berlin trip notes',
+      'berlin budget',
+      'berlin berlin weather forecast for the whole week ahead in the city',
+      'groceries',
+    ]);
+
+    expect(scores[1]).toBeGreaterThan(scores[0]);
+    expect(scores[0]).toBeGreaterThan(scores[2]);
+    expect(scores[3]).toBe(0);
+  });
+
+  it('should return excerpts around matching lines', () => {
+    const text = ['nothing here', `${'a'.repeat(100)} Berlin ${'b'.repeat(100)}`, 'berlin again', 'and berlin once more'];
+
+    // `radius` characters either side of the first match
+    expect(snippets(['berlin'], text.join('\n'), 2, 10)).toEqual([`...${'a'.repeat(9)} Berlin ${'b'.repeat(3)}...`, 'berlin aga...']);
+  });
+
+  describe('transcripts', () => {
+    let sessionsDir: string;
+    const older = '2026-01-05T10-00-00-000Z.md';
+    const newer = '2026-02-01T08-30-15-250Z.md';
+
+    beforeEach(() => {
+      sessionsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'search-test-'));
+      const dir = path.join(sessionsDir, 'main', 'conversations');
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, older), '## User\nBerlin budget for the trip, keep the Berlin budget low\n');
+      fs.writeFileSync(path.join(dir, newer), '## User\nA Berlin restaurant tip\n## Assistant\nTry the place near the canal\n');
+      fs.writeFileSync(path.join(dir, '2026-02-01T08-30-15-250Z.jsonl'), '{}\n');
+    });
+
+    afterEach(() => {
+      fs.rmSync(sessionsDir, { recursive: true, force: true });
+    });
+
+    it('should list markdown archives newest first and recover their dates', () => {
+      expect(listTranscripts(sessionsDir, 'main')).toEqual([newer, older]);
+      expect(listTranscripts(sessionsDir, 'other')).toEqual([]);
+      expect(transcriptDate(newer)).toBe('2026-02-01T08:30:15.250Z');
+    });
+
+    it('should list keyword hits newest first and ranked hits best first', () => {
+      expect(searchTranscripts(sessionsDir, 'main', 'berlin budget').map((h) => [h.file, h.score])).toEqual([[newer, 1], [older, 4]]);
+      expect(searchTranscripts(sessionsDir, 'main', 'berlin budget', { ranked: true })[0].file).toBe(older);
+      expect(searchTranscripts(sessionsDir, 'main', 'canal')).toEqual([
+        { file: newer, date: '2026-02-01T08:30:15.250Z', score: 1, snippets: ['Try the place near the canal'] },
+      ]);
+      expect(searchTranscripts(sessionsDir, 'main', 'the of')).toEqual([]);
+      expect(searchTranscripts(sessionsDir, 'main', 'berlin', { limit: 1 })).toHaveLength(1);
+    });
+
+    it('should read only listed archives', () => {
+      expect(readTranscript(sessionsDir, 'main', older)).toContain('Berlin budget');
+      expect(() => readTranscript(sessionsDir, 'main', '../../../etc/passwd')).toThrow(/No archived conversation named/);
+      expect(() => readTranscript(sessionsDir, 'main', '2026-02-01T08-30-15-250Z.jsonl')).toThrow(/No archived conversation/);
+    });
+  });
+});
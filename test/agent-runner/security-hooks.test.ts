@@ -0,0 +1,169 @@
+// Security hooks: secret stripping and per-secret exposure for Bash, and the
+// Bash policy file with its allow, deny and approval decisions.
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  createBashPolicyHook,
+  createSanitizeBashHook,
+  isValidEnvName,
+  loadBashPolicy,
+  type BashPolicy,
+} from '../../container/agent-runner/src/security-hooks.js';
+
+type HookCallback = ReturnType<typeof createBashPolicyHook>;
+type HookDecision = { hookEventName: string; permissionDecision?: string; permissionDecisionReason?: string; updatedInput?: { command: string } };
+
+async function runHook(hook: HookCallback, command: string): Promise<HookDecision | undefined> {
+  const result = await hook(
+    { hook_event_name: 'PreToolUse', tool_name: 'Bash', tool_input: { command }, session_id: 's', transcript_path: '', cwd: '/' } as never,
+    undefined,
+    { signal: new AbortController().signal },
+  );
+  return (result as { hookSpecificOutput?: HookDecision }).hookSpecificOutput;
+}
+
+describe('security hooks', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'security-hooks-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writePolicy(policy: BashPolicy | string): string {
+    const file = path.join(dir, 'bash-policy.json');
+    fs.writeFileSync(file, typeof policy === 'string' ? policy : JSON.stringify(policy));
+    return file;
+  }
+
+  describe('createSanitizeBashHook', () => {
+    it('should unset the API credentials and every secret by default', async () => {
+      const hook = createSanitizeBashHook(['GITHUB_TOKEN']);
+
+      expect((await runHook(hook, 'env'))?.updatedInput?.command)
+        .toBe('unset ANTHROPIC_API_KEY CLAUDE_CODE_OAUTH_TOKEN GITHUB_TOKEN 2>/dev/null; env');
+    });
+
+    it('should leave a bash-exposed secret set but never the API credentials', async () => {
+      const hook = createSanitizeBashHook(['GITHUB_TOKEN', 'ANTHROPIC_API_KEY'], { GITHUB_TOKEN: 'bash', ANTHROPIC_API_KEY: 'bash' });
+
+      expect((await runHook(hook, 'gh pr list'))?.updatedInput?.command)
+        .toBe('unset ANTHROPIC_API_KEY CLAUDE_CODE_OAUTH_TOKEN 2>/dev/null; gh pr list');
+    });
+
+    it('should expose a command-scoped secret only when every binary is allowed', async () => {
+      const hook = createSanitizeBashHook(['X_PASSWORD'], { X_PASSWORD: { commands: ['agent-browser'] } });
+      const prefixFor = async (command: string) => (await runHook(hook, command))?.updatedInput?.command.slice(0, -command.length);
+
+      expect(await prefixFor('agent-browser open https://x.com')).toBe('unset ANTHROPIC_API_KEY CLAUDE_CODE_OAUTH_TOKEN 2>/dev/null; ');
+      expect(await prefixFor('timeout 60 agent-browser login | agent-browser snapshot')).not.toContain('X_PASSWORD');
+      expect(await prefixFor('agent-browser --version; echo $X_PASSWORD')).toContain('X_PASSWORD');
+      expect(await prefixFor('echo $(agent-browser --version) $X_PASSWORD')).toContain('X_PASSWORD');
+    });
+
+    it('should hide a command-scoped secret from process substitution, shells and eval', async () => {
+      const hook = createSanitizeBashHook(['X_PASSWORD'], { X_PASSWORD: { commands: ['agent-browser', 'bash'] } });
+      const prefixFor = async (command: string) => (await runHook(hook, command))?.updatedInput?.command.slice(0, -command.length);
+
+      expect(await prefixFor('agent-browser <(printenv X_PASSWORD > /tmp/leak)')).toContain('X_PASSWORD');
+      expect(await prefixFor('agent-browser >(cat)')).toContain('X_PASSWORD');
+      expect(await prefixFor('bash -c "agent-browser login"')).toContain('X_PASSWORD');
+      expect(await prefixFor('eval agent-browser login')).toContain('X_PASSWORD');
+    });
+
+    it('should reject names that are not shell identifiers', () => {
+      expect(isValidEnvName('GITHUB_TOKEN')).toBe(true);
+      expect(isValidEnvName('X; rm -rf /')).toBe(false);
+      expect(isValidEnvName('1PASSWORD')).toBe(false);
+    });
+  });
+
+  describe('Bash policy', () => {
+    it('should return undefined when no policy file is mounted', () => {
+      expect(loadBashPolicy(path.join(dir, 'missing.json'))).toBeUndefined();
+    });
+
+    it('should allow commands matching the allow list and deny the rest', async () => {
+      const hook = createBashPolicyHook(loadBashPolicy(writePolicy({ allow: ['^git ', '^ls\\b'] })));
+
+      expect(await runHook(hook, 'git status')).toBeUndefined();
+      expect(await runHook(hook, 'ls -la')).toBeUndefined();
+      expect(await runHook(hook, 'rm -rf /')).toEqual({
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'deny',
+        permissionDecisionReason: 'Command does not match any pattern this group allows.',
+      });
+    });
+
+    it('should check deny rules, blocked binaries and private addresses', async () => {
+      const hook = createBashPolicyHook(loadBashPolicy(writePolicy({
+        deny: [{ pattern: 'rm\\s+-rf', reason: 'No recursive deletes.' }, { pattern: 'shutdown' }],
+        blockedBinaries: ['nmap'],
+        blockPrivateNetwork: true,
+      })));
+
+      expect((await runHook(hook, 'rm -rf build'))?.permissionDecisionReason).toBe('No recursive deletes.');
+      expect((await runHook(hook, 'shutdown now'))?.permissionDecisionReason).toBe('Command matches a denied pattern (shutdown).');
+      expect((await runHook(hook, 'echo hi | sudo nmap 10.0.0.1'))?.permissionDecisionReason).toBe('`nmap` is not permitted in this group.');
+      expect((await runHook(hook, 'curl http://169.254.169.254/latest'))?.permissionDecision).toBe('deny');
+      expect(await runHook(hook, 'curl https://example.com')).toBeUndefined();
+    });
+
+    it('should look inside sh -c, bash -c and eval for blocked binaries and private addresses', async () => {
+      const hook = createBashPolicyHook(loadBashPolicy(writePolicy({ blockedBinaries: ['nmap'], blockPrivateNetwork: true })));
+
+      expect((await runHook(hook, 'bash -c "nmap -sS 10.0.0.1"'))?.permissionDecisionReason).toBe('`nmap` is not permitted in this group.');
+      expect((await runHook(hook, 'echo $(nmap localhost)'))?.permissionDecisionReason).toBe('`nmap` is not permitted in this group.');
+      expect((await runHook(hook, "sh -c 'curl http://169.254.169.254'"))?.permissionDecision).toBe('deny');
+      expect((await runHook(hook, "bash -lc 'eval wget http://10.1.2.3/x'"))?.permissionDecision).toBe('deny');
+      expect(await runHook(hook, 'bash -c "ls -la"')).toBeUndefined();
+    });
+
+    it('should request approval for denied commands in ask mode', async () => {
+      const asked: Array<[string, string]> = [];
+      const hook = createBashPolicyHook(
+        loadBashPolicy(writePolicy({ mode: 'ask', blockedBinaries: ['docker'] })),
+        (command, reason) => asked.push([command, reason]),
+      );
+
+      const decision = await runHook(hook, 'docker ps');
+
+      expect(asked).toEqual([['docker ps', '`docker` is not permitted in this group.']]);
+      expect(decision?.permissionDecisionReason).toMatch(/An approval request has been sent to the main group/);
+      expect(await runHook(hook, 'echo ok')).toBeUndefined();
+      expect(asked).toHaveLength(1);
+    });
+
+    it('should still deny in ask mode when the approval request cannot be sent', async () => {
+      const hook = createBashPolicyHook(
+        loadBashPolicy(writePolicy({ mode: 'ask', blockedBinaries: ['docker'] })),
+        () => { throw new Error('disk full'); },
+      );
+
+      expect(await runHook(hook, 'docker ps')).toEqual({
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'deny',
+        permissionDecisionReason: '`docker` is not permitted in this group.',
+      });
+    });
+
+    it('should block every command when a pattern is not a valid regular expression', async () => {
+      const policy = loadBashPolicy(writePolicy({ allow: ['^git ', '(unclosed'] }));
+      const hook = createBashPolicyHook(policy);
+
+      expect((await runHook(hook, 'git status'))?.permissionDecisionReason).toMatch(/malformed, so all commands are blocked/);
+    });
+
+    it('should block every command when the file is not valid JSON', async () => {
+      const hook = createBashPolicyHook(loadBashPolicy(writePolicy('{ "allow": [')));
+
+      expect((await runHook(hook, 'ls'))?.permissionDecision).toBe('deny');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+// Sessions index: extractive summaries, tolerant reads of older index files,
+// rollup of old entries, and redaction on write.
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { configureRedaction } from '../../container/agent-runner/src/redact.js';
+import {
+  appendSessionsIndex,
+  readSessionsIndex,
+  rollUpSessionsIndex,
+  summarizeSession,
+  type SessionIndexEntry,
+} from '../../container/agent-runner/src/sessions-index.js';
+
+function entry(i: number): SessionIndexEntry {
+  const timestamp = new Date(Date.UTC(2026, 0, 1 + i)).toISOString();
+  return { id: `s${i}`, timestamp, transcript: `sessions/main/conversations/${i}.md`, topics: [`topic${i}`], summary: `Session ${i}` };
+}
+
+describe('sessions index', () => {
+  let dir: string;
+  let indexPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-index-test-'));
+    indexPath = path.join(dir, 'sessions-index.json');
+    configureRedaction({});
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should summarize the first request, follow-ups, last answer and topics', () => {
+    const { summary, topics } = summarizeSession([
+      { timestamp: 't', type: 'user', text: '<messages><message>Plan the Berlin trip budget</message></messages>' },
+      { timestamp: 't', type: 'assistant', text: 'Looking at Berlin hotels.' },
+      { timestamp: 't', type: 'user', text: 'Cheaper Berlin options?' },
+      { timestamp: 't', type: 'assistant', text: 'Hostels near Berlin Ostbahnhof fit the budget.' },
+    ]);
+
+    expect(summary).toBe('Asked: Plan the Berlin trip budget (+1 follow-ups) — Answered: Hostels near Berlin Ostbahnhof fit the budget.');
+    expect(topics[0]).toBe('berlin');
+    expect(topics).toContain('budget');
+  });
+
+  it('should treat a missing or malformed file as empty', () => {
+    expect(readSessionsIndex(indexPath)).toEqual([]);
+    fs.writeFileSync(indexPath, '{ not json');
+    expect(readSessionsIndex(indexPath)).toEqual([]);
+  });
+
+  it('should normalize older entries and drop ones without a timestamp or summary', () => {
+    fs.writeFileSync(indexPath, JSON.stringify([
+      { summary: 'only a summary' },
+      { timestamp: 'yesterday', summary: 'unparseable timestamp' },
+      { timestamp: '2026-01-02T00:00:00.000Z', summary: 'legacy entry', topics: ['a', 7] },
+      null,
+      entry(3),
+    ]));
+
+    expect(readSessionsIndex(indexPath)).toEqual([
+      { id: '2026-01-02T00:00:00.000Z', timestamp: '2026-01-02T00:00:00.000Z', transcript: '', topics: ['a'], summary: 'legacy entry' },
+      entry(3),
+    ]);
+  });
+
+  it('should append to an index with legacy entries and roll up past 50', () => {
+    fs.writeFileSync(indexPath, JSON.stringify([{ summary: 'legacy' }, ...Array.from({ length: 50 }, (_, i) => entry(i))]));
+
+    appendSessionsIndex(entry(50), indexPath);
+
+    const entries = readSessionsIndex(indexPath);
+    expect(entries).toHaveLength(50);
+    expect(entries[0]).toMatchObject({ id: 'rollup-2026-01-01-2026-01-02', rolledUp: 2, since: entry(0).timestamp });
+    expect(entries[0].summary).toMatch(/^2 earlier conversations \(2026-01-01 to 2026-01-02\) covering: topic\d, topic\d$/);
+    expect(entries[49]).toEqual(entry(50));
+  });
+
+  it('should count folded sessions from an existing rollup', () => {
+    const rolled = rollUpSessionsIndex(Array.from({ length: 51 }, (_, i) => entry(i)));
+    const again = rollUpSessionsIndex([...rolled, entry(51)]);
+
+    expect(again[0].rolledUp).toBe(3);
+    expect(again[0].since).toBe(entry(0).timestamp);
+  });
+
+  it('should redact secrets from the summary and topics before writing', () => {
+    configureRedaction({ TOKEN: 'hunter2hunter2' });
+
+    appendSessionsIndex({ ...entry(1), summary: 'Asked: log in with hunter2hunter2', topics: ['hunter2hunter2', 'login'] }, indexPath);
+
+    const raw = fs.readFileSync(indexPath, 'utf-8');
+    expect(raw).not.toContain('hunter2hunter2');
+    expect(readSessionsIndex(indexPath)[0]).toMatchObject({ summary: 'Asked: log in with [REDACTED]', topics: ['[REDACTED]', 'login'] });
+  });
+});
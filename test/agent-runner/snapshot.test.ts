@@ -0,0 +1,122 @@
+// HostSnapshot: reading the host's task and group snapshots, overlaying commands
+// this session sent, and dropping overlays once a snapshot shows them.
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { HostSnapshot } from '../../container/agent-runner/src/snapshot.js';
+
+describe('HostSnapshot', () => {
+  let ipcDir: string;
+  let snapshot: HostSnapshot;
+  let writes = 0;
+
+  // Each write gets a distinct mtime so refresh() sees a change
+  function writeTasks(tasks: Array<Record<string, unknown>>): void {
+    const file = path.join(ipcDir, 'current_tasks.json');
+    fs.writeFileSync(file, JSON.stringify(tasks));
+    const at = new Date(Date.UTC(2026, 0, 1) + ++writes * 1000);
+    fs.utimesSync(file, at, at);
+  }
+
+  beforeEach(() => {
+    ipcDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-test-'));
+    writeTasks([{ id: 't1', prompt: 'Water the plants', status: 'active' }]);
+    snapshot = new HostSnapshot(ipcDir);
+  });
+
+  afterEach(() => {
+    snapshot.close();
+    fs.rmSync(ipcDir, { recursive: true, force: true });
+  });
+
+  it('should read the task snapshot and treat a missing groups file as empty', () => {
+    expect(snapshot.tasks()).toEqual([{ id: 't1', prompt: 'Water the plants', status: 'active' }]);
+    expect(snapshot.groups()).toEqual([]);
+  });
+
+  it('should show a new task under its placeholder id, then the host-assigned one', () => {
+    const change = snapshot.track('tasks', 'pending-1', { prompt: 'Call mum', status: 'active' }, 'create');
+    expect(snapshot.tasks()[1]).toEqual({ id: 'pending-1', prompt: 'Call mum', status: 'active', unconfirmed: true });
+
+    snapshot.settle(change, { request_id: 'r1', ok: true, result: { task_id: 't2' } });
+    expect(snapshot.tasks()[1]).toEqual({ id: 't2', prompt: 'Call mum', status: 'active' });
+  });
+
+  it('should merge status changes into existing tasks', () => {
+    snapshot.track('tasks', 't1', { status: 'paused' });
+
+    expect(snapshot.tasks()).toEqual([{ id: 't1', prompt: 'Water the plants', status: 'paused', unconfirmed: true }]);
+  });
+
+  it('should not add a phantom task for a change to an unknown id', () => {
+    for (const status of ['paused', 'active', 'cancelled']) {
+      snapshot.track('tasks', 'missing', { status });
+    }
+    snapshot.track('tasks', 'missing', { prompt: 'Updated' });
+
+    expect(snapshot.tasks().map((t) => t.id)).toEqual(['t1']);
+  });
+
+  it('should drop a rejected change', () => {
+    const change = snapshot.track('tasks', 't1', { status: 'paused' });
+    snapshot.settle(change, { request_id: 'r1', ok: false, error: 'not allowed' });
+
+    expect(snapshot.tasks()[0].status).toBe('active');
+  });
+
+  it('should keep an acked change until a snapshot shows it, regardless of file times', () => {
+    const change = snapshot.track('tasks', 't1', { status: 'paused' });
+    snapshot.settle(change, { request_id: 'r1', ok: true });
+
+    // Rewritten by the host before it processed the pause, with a far-future mtime
+    writeTasks([{ id: 't1', prompt: 'Water the plants', status: 'active', last_run: 'x' }]);
+    const future = new Date('2099-01-01T00:00:00Z');
+    fs.utimesSync(path.join(ipcDir, 'current_tasks.json'), future, future);
+    snapshot.refresh();
+    expect(snapshot.tasks()[0]).toMatchObject({ status: 'paused', last_run: 'x' });
+
+    // The host's next snapshot shows the pause; later host changes win again
+    writeTasks([{ id: 't1', prompt: 'Water the plants', status: 'paused' }]);
+    snapshot.refresh();
+    writeTasks([{ id: 't1', prompt: 'Water the plants', status: 'active' }]);
+    snapshot.refresh();
+    expect(snapshot.tasks()[0].status).toBe('active');
+  });
+
+  it('should drop a created task once the snapshot lists it', () => {
+    const change = snapshot.track('tasks', 'pending-1', { prompt: 'Call mum', status: 'active' }, 'create');
+    snapshot.settle(change, { request_id: 'r1', ok: true, result: { task_id: 't2' } });
+
+    writeTasks([{ id: 't1', prompt: 'Water the plants', status: 'active' }, { id: 't2', prompt: 'Call mum', status: 'completed' }]);
+    snapshot.refresh();
+
+    expect(snapshot.tasks().map((t) => [t.id, t.status])).toEqual([['t1', 'active'], ['t2', 'completed']]);
+  });
+
+  it('should match an unacknowledged create by content', () => {
+    snapshot.track('tasks', 'pending-1', { prompt: 'Call mum', status: 'active' }, 'create');
+
+    writeTasks([{ id: 't1', prompt: 'Water the plants', status: 'active' }, { id: 't2', prompt: 'Call mum', status: 'active' }]);
+    snapshot.refresh();
+
+    expect(snapshot.tasks().map((t) => t.id)).toEqual(['t1', 't2']);
+  });
+
+  it('should match an acknowledged create by content when the host sent no task_id', () => {
+    const change = snapshot.track('tasks', 'pending-1', { prompt: 'Call mum', status: 'active' }, 'create');
+    snapshot.settle(change, { request_id: 'r1', ok: true });
+
+    writeTasks([{ id: 't1', prompt: 'Water the plants', status: 'active' }, { id: 't2', prompt: 'Call mum', status: 'active' }]);
+    snapshot.refresh();
+
+    expect(snapshot.tasks().map((t) => t.id)).toEqual(['t1', 't2']);
+  });
+
+  it('should overlay registered groups by folder', () => {
+    snapshot.track('groups', 'family', { name: 'Family', folder: 'family' }, 'create');
+
+    expect(snapshot.groups()).toEqual([{ folder: 'family', name: 'Family', unconfirmed: true }]);
+  });
+});
@@ -0,0 +1,94 @@
+// Scheduled task results: the agent's task_complete verdict, how runner errors
+// override it, summary clipping, and the task_result command written to tasks/.
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { validateIpcCommand } from '../../container/agent-runner/src/ipc-commands.js';
+import {
+  clipSummary,
+  resolveTaskResult,
+  TaskReport,
+  writeTaskResult,
+} from '../../container/agent-runner/src/task-result.js';
+
+const RUN = { taskId: 'task-1', lastResult: 'Sent the weekly digest.', durationMs: 4200, sessionId: 'session-1' };
+
+describe('task results', () => {
+  it('should default to success and report delivery of the final result', () => {
+    expect(resolveTaskResult(new TaskReport(), RUN)).toEqual({
+      task_id: 'task-1',
+      status: 'success',
+      summary: 'Sent the weekly digest.',
+      duration_ms: 4200,
+      notified: true,
+      session_id: 'session-1',
+    });
+  });
+
+  it('should record a skip as not notified', () => {
+    const report = new TaskReport();
+    report.complete('skipped', 'No new invoices today.', { notify: true });
+
+    expect(report.silenced).toBe(true);
+    expect(resolveTaskResult(report, RUN)).toMatchObject({ status: 'skipped', summary: 'No new invoices today.', notified: false });
+  });
+
+  it('should keep a success silent when the agent asks not to notify', () => {
+    const report = new TaskReport();
+    report.complete('success', 'Nothing changed', { notify: false });
+
+    expect(resolveTaskResult(report, RUN)).toMatchObject({ status: 'success', notified: false });
+  });
+
+  it('should use the agent-reported failure reason, falling back to its summary', () => {
+    const withError = new TaskReport();
+    withError.complete('failure', 'Could not fetch invoices', { error: 'HTTP 503 from billing API' });
+    const withoutError = new TaskReport();
+    withoutError.complete('failure', 'Could not fetch invoices');
+
+    expect(resolveTaskResult(withError, RUN)).toMatchObject({ status: 'failure', error: 'HTTP 503 from billing API' });
+    expect(resolveTaskResult(withoutError, RUN)).toMatchObject({ status: 'failure', error: 'Could not fetch invoices' });
+  });
+
+  it('should fail on a runner error even if the agent reported success', () => {
+    const report = new TaskReport();
+    report.complete('success', 'All done');
+
+    expect(resolveTaskResult(report, { ...RUN, error: 'maxTurns reached', lastResult: '' })).toMatchObject({
+      status: 'failure',
+      summary: 'All done',
+      error: 'maxTurns reached',
+      notified: false,
+    });
+  });
+
+  it('should flatten and clip long summaries', () => {
+    expect(clipSummary('line one\n\n  line two ')).toBe('line one line two');
+    const clipped = clipSummary('x'.repeat(600));
+    expect(clipped).toHaveLength(500);
+    expect(clipped.endsWith('…')).toBe(true);
+  });
+
+  describe('writeTaskResult', () => {
+    let ipcDir: string;
+
+    beforeEach(() => {
+      ipcDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-result-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(ipcDir, { recursive: true, force: true });
+    });
+
+    it('should write a schema-valid task_result command', () => {
+      const file = writeTaskResult(ipcDir, 'main', resolveTaskResult(new TaskReport(), RUN));
+
+      const command = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      expect(path.dirname(file)).toBe(path.join(ipcDir, 'tasks'));
+      expect(command).toMatchObject({ type: 'task_result', source_group: 'main', payload: { task_id: 'task-1', status: 'success' } });
+      expect(validateIpcCommand(command)).toEqual({ ok: true });
+    });
+  });
+});
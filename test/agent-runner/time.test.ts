@@ -0,0 +1,85 @@
+// Time: timezone and locale resolution, local formatting for the system prompt,
+// and parsing of ISO and natural times in the group timezone.
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatLocalTime,
+  formatUtcOffset,
+  localDate,
+  parseLocalTime,
+  resolveLocale,
+  resolveTimezone,
+  timezoneOffsetMinutes,
+} from '../../container/agent-runner/src/time.js';
+
+// Monday 2026-10-19 10:00 in Berlin (UTC+02:00)
+const NOW = new Date('2026-10-19T08:00:00.000Z');
+
+function parse(value: string, timezone = 'Europe/Berlin'): string | null {
+  return parseLocalTime(value, timezone, NOW)?.toISOString() ?? null;
+}
+
+describe('timezone and locale', () => {
+  it('should keep valid zones and locales and fall back for unknown ones', () => {
+    expect(resolveTimezone('Asia/Kolkata')).toBe('Asia/Kolkata');
+    expect(resolveTimezone('Mars/Olympus')).toBe(Intl.DateTimeFormat().resolvedOptions().timeZone);
+    expect(resolveLocale('de-de')).toBe('de-DE');
+    expect(resolveLocale('not a locale!')).toBe('en-US');
+    expect(resolveLocale(undefined)).toBe('en-US');
+  });
+
+  it('should compute offsets across DST and half-hour zones', () => {
+    expect(timezoneOffsetMinutes(NOW, 'Europe/Berlin')).toBe(120);
+    expect(timezoneOffsetMinutes(new Date('2026-12-01T12:00:00Z'), 'Europe/Berlin')).toBe(60);
+    expect(formatUtcOffset(NOW, 'Asia/Kolkata')).toBe('UTC+05:30');
+    expect(formatUtcOffset(NOW, 'America/New_York')).toBe('UTC-04:00');
+    expect(formatUtcOffset(NOW, 'UTC')).toBe('UTC');
+  });
+
+  it('should format the local time with the zone and offset', () => {
+    expect(formatLocalTime(NOW, 'Europe/Berlin')).toMatch(/^Monday, October 19, 2026 at 10:00\sAM \(Europe\/Berlin, UTC\+02:00\)$/);
+    expect(formatLocalTime(NOW, 'Europe/Berlin', 'de-DE')).toMatch(/^Montag, 19\. Oktober 2026 um 10:00 \(Europe\/Berlin, UTC\+02:00\)$/);
+    expect(formatLocalTime(NOW, 'UTC')).toMatch(/\(UTC\)$/);
+  });
+
+  it('should give the calendar date in the group timezone', () => {
+    expect(localDate(new Date('2026-10-19T23:30:00Z'), 'Europe/Berlin')).toBe('2026-10-20');
+    expect(localDate(new Date('2026-10-19T23:30:00Z'), 'America/New_York')).toBe('2026-10-19');
+  });
+});
+
+describe('parseLocalTime', () => {
+  it('should take ISO timestamps with an offset as-is', () => {
+    expect(parse('2026-10-20T09:00:00+02:00')).toBe('2026-10-20T07:00:00.000Z');
+    expect(parse('2026-10-20T09:00Z')).toBe('2026-10-20T09:00:00.000Z');
+  });
+
+  it('should read ISO timestamps without an offset as local time', () => {
+    expect(parse('2026-10-20T09:00')).toBe('2026-10-20T07:00:00.000Z');
+    expect(parse('2026-10-20')).toBe('2026-10-19T22:00:00.000Z');
+    // After the switch to winter time on 2026-10-25
+    expect(parse('2026-10-26 09:00')).toBe('2026-10-26T08:00:00.000Z');
+  });
+
+  it('should resolve natural times, rolling a passed time over to tomorrow', () => {
+    expect(parse('11am')).toBe('2026-10-19T09:00:00.000Z');
+    expect(parse('9am')).toBe('2026-10-20T07:00:00.000Z');
+    expect(parse('tomorrow 18:30')).toBe('2026-10-20T16:30:00.000Z');
+    expect(parse('today at 5:30pm')).toBe('2026-10-19T15:30:00.000Z');
+  });
+
+  it('should reject dates and times that do not exist instead of rolling them over', () => {
+    expect(parse('2026-02-31T09:00')).toBeNull();
+    expect(parse('2026-02-29')).toBeNull();
+    expect(parse('2026-13-01')).toBeNull();
+    expect(parse('2026-10-20T24:00')).toBeNull();
+    expect(parse('2026-04-31T09:00:00Z')).toBeNull();
+    expect(parse('2028-02-29')).toBe('2028-02-28T23:00:00.000Z');
+  });
+
+  it('should reject values it does not understand', () => {
+    expect(parse('9')).toBeNull();
+    expect(parse('13pm')).toBeNull();
+    expect(parse('next week')).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+// Tool policy: which tools a group gets, what reaches disallowedTools, and the
+// PreToolUse hook that enforces argument rules.
+
+import { describe, it, expect } from 'vitest';
+import {
+  createToolPolicyHook,
+  isToolAllowed,
+  resolveToolOptions,
+  type ToolPolicy,
+} from '../../container/agent-runner/src/tool-policy.js';
+
+async function runHook(policy: ToolPolicy | undefined, toolName: string, toolInput: Record<string, unknown>) {
+  const hook = createToolPolicyHook(policy);
+  const result = await hook(
+    { hook_event_name: 'PreToolUse', tool_name: toolName, tool_input: toolInput, session_id: 's', transcript_path: '', cwd: '/' } as never,
+    undefined,
+    { signal: new AbortController().signal },
+  );
+  return (result as { hookSpecificOutput?: { permissionDecision: string; permissionDecisionReason: string } }).hookSpecificOutput;
+}
+
+describe('tool policy', () => {
+  describe('isToolAllowed', () => {
+    it('should allow everything without a policy', () => {
+      expect(isToolAllowed(undefined, 'ExitPlanMode')).toBe(true);
+    });
+
+    it('should apply deny before allow and block mutating tools when read-only', () => {
+      const policy: ToolPolicy = { allow: ['Read', 'Write', 'mcp__mdclaw__*'], deny: ['mcp__mdclaw__send_file'], readOnly: true };
+
+      expect(isToolAllowed(policy, 'Read')).toBe(true);
+      expect(isToolAllowed(policy, 'Write')).toBe(false);
+      expect(isToolAllowed(policy, 'mcp__mdclaw__send_message')).toBe(true);
+      expect(isToolAllowed(policy, 'mcp__mdclaw__send_file')).toBe(false);
+    });
+  });
+
+  describe('resolveToolOptions', () => {
+    it('should disallow nothing without a policy', () => {
+      expect(resolveToolOptions(undefined).disallowedTools).toEqual([]);
+    });
+
+    it('should disallow every built-in a restrictive allow list leaves out', () => {
+      const { allowedTools, disallowedTools } = resolveToolOptions({ allow: ['Read', 'Grep'] });
+
+      expect(allowedTools).toEqual(['Read', 'Grep', 'mcp__mdclaw__*']);
+      expect(disallowedTools).toEqual(expect.arrayContaining(['Bash', 'BashOutput', 'KillShell', 'MultiEdit', 'ExitPlanMode', 'WebFetch']));
+      expect(disallowedTools).not.toContain('Read');
+      expect(disallowedTools).not.toContain('Grep');
+    });
+
+    it('should keep the Bash companions with the default tools', () => {
+      const { disallowedTools } = resolveToolOptions({ deny: ['WebFetch'] });
+
+      expect(disallowedTools).toContain('WebFetch');
+      expect(disallowedTools).not.toContain('BashOutput');
+      expect(disallowedTools).not.toContain('KillShell');
+    });
+  });
+
+  describe('createToolPolicyHook', () => {
+    const policy: ToolPolicy = {
+      arguments: {
+        WebFetch: [{ field: 'url', allow: ['^https://docs\\.example\\.com/'], deny: ['/admin'] }],
+      },
+    };
+
+    it('should pass calls that satisfy the rules and tools without rules', async () => {
+      expect(await runHook(policy, 'WebFetch', { url: 'https://docs.example.com/guide' })).toBeUndefined();
+      expect(await runHook(policy, 'Read', { file_path: '/etc/passwd' })).toBeUndefined();
+    });
+
+    it('should deny values matching a deny pattern or missing every allow pattern', async () => {
+      expect(await runHook(policy, 'WebFetch', { url: 'https://docs.example.com/admin' })).toEqual({
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'deny',
+        permissionDecisionReason: "WebFetch url matches a pattern this group's policy denies (/admin).",
+      });
+      expect((await runHook(policy, 'WebFetch', { url: 'https://evil.example.com/' }))?.permissionDecisionReason)
+        .toBe("WebFetch url does not match any pattern this group's policy allows.");
+    });
+
+    it('should deny every call to a tool whose rules have an invalid pattern', async () => {
+      const broken: ToolPolicy = { arguments: { WebFetch: [{ field: 'url', deny: ['(unclosed'] }] } };
+
+      const decision = await runHook(broken, 'WebFetch', { url: 'https://docs.example.com/' });
+
+      expect(decision?.permissionDecision).toBe('deny');
+      expect(decision?.permissionDecisionReason).toMatch(/^WebFetch is blocked: this group's tool policy has an invalid argument pattern/);
+      expect(await runHook(broken, 'Read', { file_path: '/tmp/x' })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,114 @@
+// Transcripts: recording prompts and SDK messages, the markdown rendering, and
+// the redacted JSONL plus markdown archive.
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { configureRedaction } from '../../container/agent-runner/src/redact.js';
+import {
+  archiveTranscript,
+  renderTranscriptMarkdown,
+  TranscriptRecorder,
+} from '../../container/agent-runner/src/transcript.js';
+
+type SdkMessage = Parameters<TranscriptRecorder['recordSdkMessage']>[0];
+
+// One assistant turn that says something, runs a tool and gets its result
+function recordToolTurn(recorder: TranscriptRecorder): void {
+  recorder.recordPrompt('What is in notes.txt?');
+  recorder.recordSdkMessage({
+    type: 'assistant',
+    message: { content: [
+      { type: 'text', text: 'Let me look.' },
+      { type: 'tool_use', id: 'tu1', name: 'Read', input: { file_path: '/data/notes.txt' } },
+    ] },
+  } as unknown as SdkMessage);
+  recorder.recordSdkMessage({
+    type: 'user',
+    message: { content: [{ type: 'tool_result', tool_use_id: 'tu1', content: 'buy milk' }] },
+  } as unknown as SdkMessage);
+  recorder.recordSdkMessage({
+    type: 'result',
+    subtype: 'success',
+    result: 'It says: buy milk.',
+    num_turns: 2,
+    duration_ms: 1500,
+    total_cost_usd: 0.01,
+    usage: { input_tokens: 10, output_tokens: 5 },
+  } as unknown as SdkMessage);
+}
+
+describe('transcripts', () => {
+  let sessionsDir: string;
+
+  beforeEach(() => {
+    sessionsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'transcript-test-'));
+    configureRedaction({});
+  });
+
+  afterEach(() => {
+    fs.rmSync(sessionsDir, { recursive: true, force: true });
+  });
+
+  it('should record prompts, text, tool calls, tool results and results as entries', () => {
+    const recorder = new TranscriptRecorder();
+    recordToolTurn(recorder);
+    recorder.recordSdkMessage({ type: 'stream_event' } as unknown as SdkMessage);
+
+    expect(recorder.entries.map(({ timestamp: _t, ...e }) => e)).toEqual([
+      { type: 'user', text: 'What is in notes.txt?' },
+      { type: 'assistant', text: 'Let me look.' },
+      { type: 'tool_use', id: 'tu1', name: 'Read', input: { file_path: '/data/notes.txt' } },
+      { type: 'tool_result', tool_use_id: 'tu1', content: 'buy milk', is_error: false },
+      { type: 'result', subtype: 'success', result: 'It says: buy milk.', num_turns: 2, duration_ms: 1500, total_cost_usd: 0.01, usage: { input_tokens: 10, output_tokens: 5 } },
+    ]);
+  });
+
+  it('should render user and assistant sections with tool calls and shortened inputs', () => {
+    const recorder = new TranscriptRecorder();
+    recordToolTurn(recorder);
+    recorder.recordSdkMessage({
+      type: 'assistant',
+      message: { content: [{ type: 'tool_use', id: 'tu2', name: 'Write', input: { content: 'x'.repeat(500) } }] },
+    } as unknown as SdkMessage);
+
+    const markdown = renderTranscriptMarkdown(recorder.entries);
+
+    expect(markdown).toMatch(/^## User\nWhat is in notes\.txt\?\n\n## Assistant\nLet me look\.\n\n- Tool `Read`: `\{"file_path":"\/data\/notes\.txt"\}`\n\n/);
+    expect(markdown.match(/## Assistant/g)).toHaveLength(1);
+    expect(markdown).toContain('x'.repeat(188) + '...`');
+    expect(markdown).not.toContain('x'.repeat(201));
+  });
+
+  it('should archive every entry as JSONL and the markdown with a header, both redacted', () => {
+    configureRedaction({ TOKEN: 'hunter2hunter2' });
+    const recorder = new TranscriptRecorder();
+    recorder.recordPrompt('my password is hunter2hunter2');
+    recordToolTurn(recorder);
+
+    const mdPath = archiveTranscript(sessionsDir, 'main', recorder.entries, { Cost: '$0.0100' });
+
+    expect(path.dirname(mdPath)).toBe(path.join(sessionsDir, 'main', 'conversations'));
+    const markdown = fs.readFileSync(mdPath, 'utf-8');
+    expect(markdown).toMatch(/^# Conversation Archive\n\n- \*\*Group:\*\* main\n- \*\*Archived:\*\* .+\n- \*\*Cost:\*\* \$0\.0100\n\n---\n## User\nmy password is \[REDACTED\]/);
+
+    const lines = fs.readFileSync(mdPath.replace(/\.md$/, '.jsonl'), 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(recorder.entries.length);
+    expect(JSON.parse(lines[0]).text).toBe('my password is [REDACTED]');
+    expect(JSON.parse(lines[4])).toMatchObject({ type: 'tool_result', content: 'buy milk' });
+  });
+
+  it('should redact secrets that JSON escaping would change', () => {
+    configureRedaction({ PASSWORD: 'pa"ss\\word123' });
+    const recorder = new TranscriptRecorder();
+    recorder.recordPrompt('log in with pa"ss\\word123');
+
+    const mdPath = archiveTranscript(sessionsDir, 'main', recorder.entries);
+
+    const jsonl = fs.readFileSync(mdPath.replace(/\.md$/, '.jsonl'), 'utf-8');
+    expect(jsonl).not.toContain('word123');
+    expect(JSON.parse(jsonl).text).toBe('log in with [REDACTED]');
+    expect(fs.readFileSync(mdPath, 'utf-8')).not.toContain('word123');
+  });
+});
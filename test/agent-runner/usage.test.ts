@@ -0,0 +1,96 @@
+// UsageTracker: per-turn token and cost accounting across query() calls, totals,
+// and the usage.json file written for the host.
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { UsageTracker } from '../../container/agent-runner/src/usage.js';
+
+type ResultMessage = Parameters<UsageTracker['recordResult']>[0];
+
+// A success result with the fields UsageTracker reads
+function result(costUsd: number, tokens: { input?: number; output?: number; cacheRead?: number } = {}): ResultMessage {
+  return {
+    type: 'result',
+    subtype: 'success',
+    duration_ms: 1000,
+    duration_api_ms: 800,
+    is_error: false,
+    num_turns: 2,
+    result: 'ok',
+    session_id: 's',
+    total_cost_usd: costUsd,
+    usage: {
+      input_tokens: tokens.input ?? 0,
+      output_tokens: tokens.output ?? 0,
+      cache_read_input_tokens: tokens.cacheRead ?? 0,
+      cache_creation_input_tokens: 0,
+    },
+  } as unknown as ResultMessage;
+}
+
+describe('UsageTracker', () => {
+  let ipcDir: string;
+
+  beforeEach(() => {
+    ipcDir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(ipcDir, { recursive: true, force: true });
+  });
+
+  it('should turn cumulative cost into per-turn deltas within one query', () => {
+    const tracker = new UsageTracker('main', false);
+    tracker.startQuery();
+
+    expect(tracker.recordResult(result(0.02, { input: 100, output: 20 }), 1)).toMatchObject({ costUsd: 0.02, inputTokens: 100 });
+    expect(tracker.recordResult(result(0.05, { input: 50, output: 10 }), 2).costUsd).toBeCloseTo(0.03);
+  });
+
+  it('should reset the cost baseline for each query() call', () => {
+    const tracker = new UsageTracker('main', false);
+    tracker.startQuery();
+    tracker.recordResult(result(0.04), 1);
+    tracker.startQuery();
+
+    expect(tracker.recordResult(result(0.01), 2).costUsd).toBe(0.01);
+    expect(tracker.snapshot().totals.costUsd).toBeCloseTo(0.05);
+  });
+
+  it('should total tokens, turns and tool calls in the snapshot', () => {
+    const tracker = new UsageTracker('family', true);
+    tracker.sessionId = 'session-1';
+    tracker.stopReason = 'maxTurns';
+    tracker.startQuery();
+    tracker.recordResult(result(0.01, { input: 100, output: 20, cacheRead: 500 }), 1);
+    tracker.recordResult(result(0.02, { input: 40, output: 10 }), 2);
+    tracker.recordToolCalls(3);
+
+    const usage = tracker.snapshot();
+
+    expect(usage).toMatchObject({
+      groupFolder: 'family',
+      sessionId: 'session-1',
+      isScheduledTask: true,
+      toolCalls: 3,
+      stopReason: 'maxTurns',
+      totals: { inputTokens: 140, outputTokens: 30, cacheReadInputTokens: 500, durationMs: 2000 },
+    });
+    expect(usage.turns.map((t) => [t.turn, t.numTurns, t.apiDurationMs, t.subtype])).toEqual([[1, 2, 800, 'success'], [2, 2, 800, 'success']]);
+    expect(tracker.summaryFields()).toMatchObject({ Turns: '2', 'Tool calls': '3', Cost: '$0.0200', 'Stopped by': 'maxTurns' });
+  });
+
+  it('should write usage.json atomically', () => {
+    const tracker = new UsageTracker('main', false);
+    tracker.startQuery();
+    tracker.recordResult(result(0.01, { input: 10 }), 1);
+
+    const written = tracker.writeTo(ipcDir);
+
+    expect(written).toBe(path.join(ipcDir, 'usage.json'));
+    expect(JSON.parse(fs.readFileSync(written, 'utf-8')).totals.inputTokens).toBe(10);
+    expect(fs.readdirSync(ipcDir)).toEqual(['usage.json']);
+  });
+});